@@ -0,0 +1,41 @@
+import { BufferAPIError } from './types';
+
+export const createAbortError = (signal?: AbortSignal): BufferAPIError => {
+    const reason = signal?.reason;
+    return new BufferAPIError(
+        'REQUEST_ABORTED',
+        'Request was aborted',
+        undefined,
+        reason !== undefined ? { reason: reason instanceof Error ? reason.message : reason } : undefined
+    );
+};
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+    if (signal?.aborted) {
+        throw createAbortError(signal);
+    }
+};
+
+// setTimeout that rejects with REQUEST_ABORTED as soon as the signal fires
+export const abortableSleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    if (!signal) {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(createAbortError(signal));
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError(signal));
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+};
@@ -0,0 +1,135 @@
+import {
+    AuthorizationRequest,
+    AuthorizationUrlOptions,
+    AuthenticationError,
+    BufferAPIError,
+    OAuthCallbackResult,
+    PkcePair,
+    ValidationError,
+} from './types';
+
+const OAUTH_AUTHORIZE_URL = 'http://localhost:8083/api/v1/auth/oauth2/authorize';
+
+// Web Crypto is available in browsers, Deno, edge runtimes and Node 19+; older Node falls back to the crypto module
+const randomBytes = async (size: number): Promise<Uint8Array> => {
+    const webCrypto = (globalThis as any).crypto;
+    if (webCrypto?.getRandomValues) {
+        return webCrypto.getRandomValues(new Uint8Array(size));
+    }
+
+    const nodeCrypto = await import('crypto');
+    return new Uint8Array(nodeCrypto.randomBytes(size));
+};
+
+const sha256 = async (input: string): Promise<Uint8Array> => {
+    const webCrypto = (globalThis as any).crypto;
+    if (webCrypto?.subtle) {
+        return new Uint8Array(await webCrypto.subtle.digest('SHA-256', new TextEncoder().encode(input)));
+    }
+
+    const nodeCrypto = await import('crypto');
+    return new Uint8Array(nodeCrypto.createHash('sha256').update(input).digest());
+};
+
+const base64UrlEncode = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+
+    const base64 = typeof btoa === 'function' ? btoa(binary) : Buffer.from(binary, 'binary').toString('base64');
+    return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Compares in constant time so the state check does not leak how many characters matched
+const timingSafeEqual = (a: string, b: string): boolean => {
+    if (a.length !== b.length) {
+        return false;
+    }
+
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+};
+
+// Random, URL-safe value used as the CSRF `state` parameter
+export const generateState = async (): Promise<string> => {
+    return base64UrlEncode(await randomBytes(32));
+};
+
+// PKCE (RFC 7636) verifier and S256 challenge
+export const createPkcePair = async (): Promise<PkcePair> => {
+    const codeVerifier = base64UrlEncode(await randomBytes(32));
+    const codeChallenge = base64UrlEncode(await sha256(codeVerifier));
+
+    return { codeVerifier, codeChallenge, codeChallengeMethod: 'S256' };
+};
+
+export const verifyState = (received: string | null | undefined, expected: string): void => {
+    if (!received || !timingSafeEqual(received, expected)) {
+        throw new AuthenticationError('OAUTH_STATE_MISMATCH', 'OAuth state does not match the authorization request', 400);
+    }
+};
+
+// Builds the authorize redirect URL. Keep the returned state and code verifier (e.g. in the session) for the callback.
+export const createAuthorizationRequest = async (
+    bufferSDK: { clientId: string; redirectUri: string; scopes?: string[] },
+    options: AuthorizationUrlOptions = {}
+): Promise<AuthorizationRequest> => {
+    if (!bufferSDK?.clientId || !bufferSDK?.redirectUri) {
+        throw new BufferAPIError('OAUTH_CONFIG_INVALID', 'clientId and redirectUri are required to build an authorization URL');
+    }
+
+    const state = options.state || await generateState();
+    const scopes = options.scopes || bufferSDK.scopes || [];
+
+    const url = new URL(options.authorizeUrl || OAUTH_AUTHORIZE_URL);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', bufferSDK.clientId);
+    url.searchParams.set('redirect_uri', bufferSDK.redirectUri);
+    url.searchParams.set('state', state);
+    if (scopes.length > 0) {
+        url.searchParams.set('scope', scopes.join(' '));
+    }
+
+    let codeVerifier: string | undefined;
+    if (options.pkce !== false) {
+        const pkce = await createPkcePair();
+        codeVerifier = pkce.codeVerifier;
+        url.searchParams.set('code_challenge', pkce.codeChallenge);
+        url.searchParams.set('code_challenge_method', pkce.codeChallengeMethod);
+    }
+
+    Object.entries(options.extraParams || {}).forEach(([key, value]) => url.searchParams.set(key, value));
+
+    return { url: url.toString(), state, codeVerifier };
+};
+
+// Verifies the redirect back from the authorize endpoint and extracts the authorization code
+export const parseCallbackUrl = (
+    callbackUrl: string,
+    request: Pick<AuthorizationRequest, 'state' | 'codeVerifier'>
+): OAuthCallbackResult => {
+    const params = new URL(callbackUrl, 'http://localhost').searchParams;
+
+    const error = params.get('error');
+    if (error) {
+        const description = params.get('error_description') || error;
+        if (error === 'access_denied') {
+            throw new AuthenticationError('OAUTH_ACCESS_DENIED', `Authorization was denied: ${description}`, 403, { error });
+        }
+        throw new ValidationError('OAUTH_CALLBACK_ERROR', `Authorization failed: ${description}`, 400, { error });
+    }
+
+    const state = params.get('state');
+    verifyState(state, request.state);
+
+    const code = params.get('code');
+    if (!code) {
+        throw new ValidationError('OAUTH_CODE_MISSING', 'Callback URL does not contain an authorization code', 400);
+    }
+
+    return { code, state: state as string, codeVerifier: request.codeVerifier };
+};
@@ -0,0 +1,60 @@
+import { toBufferAPIError } from './errors';
+import { BatchOperationOptions, BatchOperationResult, BufferAPIError, ValidationError } from './types';
+
+const DEFAULT_CONCURRENCY = 4;
+
+// Runs `worker` over `items` with at most `concurrency` in flight. Results keep the input order.
+// With `stopOnError`, items that have not started when the first failure happens are reported as skipped.
+export const runBatch = async <I, T>(
+    items: I[],
+    worker: (item: I, index: number) => Promise<T>,
+    options: BatchOperationOptions = {}
+): Promise<BatchOperationResult<T>> => {
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new ValidationError('VALIDATION_ERROR', 'concurrency must be a positive integer', 400, {
+            fieldErrors: [{ field: 'concurrency', message: 'concurrency must be a positive integer' }],
+        });
+    }
+
+    const results: BatchOperationResult<T>['results'] = new Array(items.length);
+    let next = 0;
+    let stopped = false;
+
+    const runWorker = async (): Promise<void> => {
+        while (next < items.length && !stopped) {
+            const index = next++;
+            try {
+                results[index] = { success: true, data: await worker(items[index], index) };
+            } catch (error) {
+                results[index] = { success: false, error: toBufferAPIError(error) };
+                stopped = Boolean(options.stopOnError);
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runWorker));
+
+    for (let index = 0; index < items.length; index++) {
+        if (!results[index]) {
+            results[index] = {
+                success: false,
+                skipped: true,
+                error: new BufferAPIError('BATCH_ITEM_SKIPPED', 'Skipped after an earlier item failed (stopOnError)'),
+            };
+        }
+    }
+
+    const successful = results.filter(result => result.success).length;
+    const skipped = results.filter(result => result.skipped).length;
+    return {
+        success: successful === items.length,
+        results,
+        summary: {
+            total: items.length,
+            successful,
+            failed: items.length - successful - skipped,
+            skipped,
+        },
+    };
+};
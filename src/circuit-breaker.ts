@@ -0,0 +1,96 @@
+import {
+    BufferAPIError,
+    CircuitBreakerOptions,
+    CircuitState,
+    CircuitStateChangeEvent,
+    EndpointGroup,
+} from './types';
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+    failureThreshold: 5,
+    cooldownMs: 30000,
+};
+
+// Failures that indicate the API itself is degraded; 4xx responses and local errors do not count
+export const isCircuitFailure = (error: BufferAPIError): boolean => {
+    return error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT' || (error.statusCode || 0) >= 500;
+};
+
+// Closed: requests flow and consecutive failures are counted. Open: requests fail fast with CIRCUIT_OPEN.
+// Half-open: after the cooldown one trial request is let through; its outcome closes or re-opens the circuit.
+export class CircuitBreaker {
+    private readonly group: EndpointGroup;
+    private readonly options: CircuitBreakerOptions;
+    private readonly emit: (event: CircuitStateChangeEvent) => void;
+    private state: CircuitState = 'closed';
+    private failures = 0;
+    private openedAt = 0;
+    private trialInFlight = false;
+
+    constructor(
+        group: EndpointGroup,
+        options: CircuitBreakerOptions,
+        emit: (event: CircuitStateChangeEvent) => void = () => undefined
+    ) {
+        this.group = group;
+        this.options = options;
+        this.emit = emit;
+    }
+
+    public getState(): CircuitState {
+        if (this.state === 'open' && Date.now() - this.openedAt >= this.options.cooldownMs) {
+            this.transition('half-open');
+        }
+        return this.state;
+    }
+
+    // Throws CIRCUIT_OPEN unless the request may be sent
+    public beforeRequest(): void {
+        const state = this.getState();
+        if (state === 'closed') {
+            return;
+        }
+
+        if (state === 'half-open' && !this.trialInFlight) {
+            this.trialInFlight = true;
+            return;
+        }
+
+        const retryAfterMs = Math.max(0, this.openedAt + this.options.cooldownMs - Date.now());
+        throw new BufferAPIError(
+            'CIRCUIT_OPEN',
+            `Circuit for ${this.group} requests is open after ${this.failures} consecutive failures`,
+            503,
+            { group: this.group, retryAfterMs }
+        );
+    }
+
+    public recordSuccess(): void {
+        this.failures = 0;
+        this.trialInFlight = false;
+        if (this.state !== 'closed') {
+            this.transition('closed');
+        }
+    }
+
+    public recordFailure(): void {
+        this.failures++;
+        this.trialInFlight = false;
+
+        if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.options.failureThreshold)) {
+            this.openedAt = Date.now();
+            this.transition('open');
+        }
+    }
+
+    // Frees the half-open trial slot when a request ended without telling us anything about the API
+    public release(): void {
+        this.trialInFlight = false;
+    }
+
+    private transition(to: CircuitState): void {
+        const from = this.state;
+        this.state = to;
+        this.emit({ group: this.group, from, to, failures: this.failures, timestamp: Date.now() });
+    }
+}
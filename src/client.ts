@@ -8,38 +8,126 @@ import {
     PostAnalytics,
     AnalyticsSummary,
     PostListOptions,
+    PostPage,
+    PostAction,
+    UpdatePostData,
+    ProfileQueue,
+    ScheduleSlot,
+    RecurringPost,
+    RecurringPostDefinition,
+    RecurrenceOccurrence,
+    EvergreenOptions,
+    PostingSchedule,
+    BatchOperationOptions,
+    BatchOperationResult,
+    BulkCreatePostItem,
+    BulkRescheduleItem,
+    ProfileUpdateData,
+    MediaHandle,
+    MediaUploadInput,
+    MediaUploadOptions,
     CreatePostData,
+    PostLink,
+    UtmTemplate,
+    LinkProcessingOptions,
+    PostMediaItem,
+    BufferPostMedia,
     AnalyticsOptions,
     APIResponse,
     BufferAPIError,
+    BufferErrorCode,
+    AuthenticationError,
+    NotFoundError,
+    ValidationError,
     AuthTokens,
+    TokenStoreKey,
     TimeRange,
-    SocialPlatform, HTTPClient, BufferClientConfig, BufferTypes
+    SocialPlatform, HTTPClient, BufferClientConfig,
+    BufferMiddleware,
+    BufferMiddlewareNext,
+    BufferRequest,
+    BufferResponse,
+    HTTPMethod,
+    RateLimiterStatus,
+    BufferClientStats,
+    RequestOptions,
+    EndpointGroup,
+    CircuitBreakerOptions,
+    CircuitState,
+    CircuitStateChangeEvent,
+    RetryPolicy
 } from './types';
 
 import axios from 'axios';
-import RetryConfig = BufferTypes.RetryConfig;
-import RateLimitState = BufferTypes.RateLimitState;
+import { abortableSleep, throwIfAborted } from './abort';
+import { runBatch } from './batch';
+import { CircuitBreaker, DEFAULT_CIRCUIT_BREAKER_OPTIONS, isCircuitFailure } from './circuit-breaker';
+import { toBufferAPIError } from './errors';
+import { findUrls, rewriteLinks } from './links';
+import { assertMediaSize, inspectMedia, openMediaInput } from './media';
+import { composeMiddleware, normalizeHeaders } from './middleware';
+import { assertPostAction, toScheduledAt } from './post-lifecycle';
+import { assertValidPost } from './post-validation';
+import { buildQueue, getQueuedSlotTimes, resolveQueueOrder, shuffleIds } from './queue';
+import { expandRecurrence, normalizeRecurrenceRule, selectEvergreenPosts } from './recurrence';
+import { addScheduleSlot, assertTimezone, computeFreeSlots, normalizeSchedules, removeScheduleSlot } from './schedule';
+import { parseRateLimitHeaders, TokenBucketRateLimiter } from './rate-limiter';
+import {
+    computeRetryDelay,
+    createIdempotencyKey,
+    DEFAULT_RETRY_POLICY,
+    isRetryableError,
+    isSafeToRetry,
+    mergeRetryPolicy,
+} from './retry';
+
+const DEFAULT_PAGE_SIZE = 20;
+const DEFAULT_MEDIA_CHUNK_SIZE = 5 * 1024 * 1024;
+const MOCK_POSTS_PER_PROFILE = 45;
+const OAUTH_TOKEN_URL = 'http://localhost:8083/api/v1/auth/oauth2/token.json';
 
 // HTTP Client interface to maintain type safety
 
 export class BufferClient {
     private httpClient: HTTPClient;
     private config: Required<BufferClientConfig> | any;
-    private retryConfig: RetryConfig | any;
-    private rateLimitState: RateLimitState | any;
+    private retryPolicy!: RetryPolicy;
+    private rateLimiter!: TokenBucketRateLimiter;
     private clientConfig: Partial<BufferClientConfig>;
+    private tokens?: AuthTokens;
+    private refreshPromise?: Promise<AuthTokens>;
+    private middlewares: BufferMiddleware[] = [];
+    private pipeline?: BufferMiddlewareNext;
+    private circuitBreakers = new Map<EndpointGroup, CircuitBreaker>();
+    private circuitListeners = new Set<(event: CircuitStateChangeEvent) => void>();
+    private stats = { requestCount: 0, errorCount: 0, lastRequestTime: 0 };
+    private profilePlatforms = new Map<string, SocialPlatform>();
+    private recurringSeries = new Map<string, RecurringPost>();
+    private materializedOccurrences = new Set<string>();
+    // Evergreen re-queue times by content key
+    private evergreenShares = new Map<string, number>();
+    // Mock-mode server state: created posts and the idempotency keys that produced them
+    private mockPosts = new Map<string, BufferPost>();
+    private mockIdempotencyKeys = new Map<string, string>();
+    private mockPostSequence = 0;
+    private mockSeededProfiles = new Set<string>();
+    private mockDeletedPosts = new Set<string>();
+    private mockQueueOrder = new Map<string, string[]>();
+    private mockPausedProfiles = new Set<string>();
+    private mockProfileChanges = new Map<string, Partial<BufferProfile>>();
+    private mockMedia = new Map<string, MediaHandle>();
+    private mockMediaSequence = 0;
 
     constructor(config: Partial<BufferClientConfig>) {
-        this.httpClient = axios;
+        // Each client gets its own transport so tokens and headers never leak between clients
+        this.httpClient = config.httpClient || axios.create();
         this.clientConfig = config;
     }
 
     public async initialize(): Promise<this> {
-        const response: any = await this.exchangeCodeForTokens(this.clientConfig.bufferSDK)
         // Set defaults
         this.config = {
-            accessToken: response?.data.access_token,
+            accessToken: this.clientConfig.accessToken,
             baseUrl: 'http://localhost:8083/api/v1/sdk',
             timeout: this.clientConfig.timeout || 10000,
             retryAttempts: this.clientConfig.retryAttempts || 3,
@@ -47,239 +135,1096 @@ export class BufferClient {
             rateLimit: {
                 requests: this.clientConfig.rateLimit?.requests || 100,
                 window: this.clientConfig.rateLimit?.window || 3600000, // 1 hour in ms
+                strategy: this.clientConfig.rateLimit?.strategy || 'queue',
+                maxWaitMs: this.clientConfig.rateLimit?.maxWaitMs ?? 60000,
+                maxQueueLength: this.clientConfig.rateLimit?.maxQueueLength ?? 1000,
+                store: this.clientConfig.rateLimit?.store,
+                key: this.clientConfig.rateLimit?.key
+                    || `buffer-sdk:${this.clientConfig.bufferSDK?.clientId}:${this.clientConfig.account || 'default'}`,
             },
-            bufferSDK: this.clientConfig.bufferSDK
+            bufferSDK: this.clientConfig.bufferSDK,
+            tokenStore: this.clientConfig.tokenStore,
+            account: this.clientConfig.account || 'default',
+            tokenRefreshMargin: this.clientConfig.tokenRefreshMargin ?? 60000,
+            onTokenRefresh: this.clientConfig.onTokenRefresh,
+            circuitBreaker: this.clientConfig.circuitBreaker === false
+                ? false
+                : { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...this.clientConfig.circuitBreaker },
+            validatePosts: this.clientConfig.validatePosts ?? true,
+            links: this.clientConfig.links || {},
         };
 
-        this.retryConfig = {
+        this.retryPolicy = mergeRetryPolicy(DEFAULT_RETRY_POLICY, {
             attempts: this.config.retryAttempts,
             delay: this.config.retryDelay,
-            backoffFactor: 2,
-        };
+            ...this.clientConfig.retry,
+        });
 
-        this.rateLimitState = {
-            requests: 0,
-            resetTime: Date.now() + this.config.rateLimit.window,
-        };
+        this.rateLimiter = new TokenBucketRateLimiter(this.config.rateLimit);
+        this.circuitBreakers.clear();
 
-        // Set up HTTP client
-        if (this.httpClient) {
-            this.httpClient = this.setupHttpClient(this.httpClient);
-        } else {
+        if (!this.httpClient) {
             throw new Error('HTTP client is required. Please provide an HTTP client (e.g., axios instance)');
         }
+
+        this.middlewares = [...(this.clientConfig.middleware || [])];
+        this.pipeline = undefined;
+
+        await this.resolveTokens();
         return this;
     }
 
-    private setupHttpClient(httpClient: HTTPClient): HTTPClient {
-        // If it's an axios instance, set up interceptors
-        if (httpClient.defaults && httpClient.interceptors) {
-            // Set default headers
-            httpClient.defaults.baseURL = this.config.baseUrl;
-            httpClient.defaults.timeout = this.config.timeout;
-            httpClient.defaults.headers['Authorization'] = `Bearer ${this.config.accessToken}`;
-            httpClient.defaults.headers['Content-Type'] = 'application/json';
-            httpClient.defaults.headers['User-Agent'] = 'BufferOptimizer/1.0.0';
-            // Request interceptor for rate limiting
-            httpClient.interceptors.request.use(async (config: any) => {
-                await this.checkRateLimit();
-                return config;
+    // Prefers stored tokens, then a configured access token, and only exchanges the authorization code as a last resort
+    private async resolveTokens(): Promise<void> {
+        const stored = await this.config.tokenStore?.load(this.tokenStoreKey());
+        if (stored && (!this.isTokenExpired(stored) || stored.refresh_token)) {
+            await this.storeTokens(stored, false);
+            await this.ensureFreshToken();
+            return;
+        }
+
+        if (this.config.accessToken) {
+            await this.storeTokens({ access_token: this.config.accessToken, token_type: 'Bearer' }, false);
+            return;
+        }
+
+        const tokens = await this.exchangeCodeForTokens(this.config.bufferSDK);
+        if (!tokens?.access_token) {
+            throw new AuthenticationError('TOKEN_EXCHANGE_FAILED', 'Token endpoint did not return an access token', 401);
+        }
+
+        await this.storeTokens(tokens, true);
+    }
+
+    private tokenStoreKey(): TokenStoreKey {
+        return { clientId: this.config.bufferSDK?.clientId, account: this.config.account };
+    }
+
+    private isTokenExpired(tokens: AuthTokens): boolean {
+        return tokens.expires_at !== undefined && Date.now() >= tokens.expires_at;
+    }
+
+    // Returns the tokens currently used to authenticate requests
+    public getTokens(): AuthTokens | undefined {
+        return this.tokens ? { ...this.tokens } : undefined;
+    }
+
+    // Exchanges the refresh token for a new access token. Concurrent callers share one refresh call.
+    public async refreshAccessToken(): Promise<AuthTokens> {
+        if (!this.refreshPromise) {
+            this.refreshPromise = this.performTokenRefresh().finally(() => {
+                this.refreshPromise = undefined;
             });
+        }
 
-            // Response interceptor for error handling
-            httpClient.interceptors.response.use(
-                (response: any) => response,
-                (error: any) => {
-                    throw this.handleAPIError(error);
-                }
-            );
+        return this.refreshPromise;
+    }
+
+    private async performTokenRefresh(): Promise<AuthTokens> {
+        const refreshToken = this.tokens?.refresh_token;
+        if (!refreshToken) {
+            throw new AuthenticationError('TOKEN_REFRESH_FAILED', 'No refresh token available', 401);
         }
 
-        return httpClient;
+        const tokens = await this.exchangeRefreshToken(this.config.bufferSDK, refreshToken);
+        if (!tokens?.access_token) {
+            throw new AuthenticationError('TOKEN_REFRESH_FAILED', 'Token endpoint did not return an access token', 401);
+        }
+
+        // Some providers do not rotate the refresh token, so keep the current one
+        return this.storeTokens({ ...tokens, refresh_token: tokens.refresh_token || refreshToken });
     }
 
-    private async checkRateLimit(): Promise<void> {
-        const now = Date.now();
+    // `issued` is true for tokens fresh from the token endpoint; those are persisted and reported to the hook
+    private async storeTokens(tokens: AuthTokens, issued = true): Promise<AuthTokens> {
+        const expiresAt = issued && tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : tokens.expires_at;
+        this.tokens = { ...tokens, expires_at: expiresAt };
+        this.config.accessToken = tokens.access_token;
+
+        if (issued) {
+            await this.config.tokenStore?.save(this.tokenStoreKey(), this.tokens);
 
-        // Reset rate limit window if expired
-        if (now > this.rateLimitState.resetTime) {
-            this.rateLimitState.requests = 0;
-            this.rateLimitState.resetTime = now + this.config.rateLimit.window;
+            if (this.config.onTokenRefresh) {
+                await this.config.onTokenRefresh({ ...this.tokens });
+            }
         }
 
-        // Check if we've exceeded rate limit
-        if (this.rateLimitState.requests >= this.config.rateLimit.requests) {
-            const waitTime = this.rateLimitState.resetTime - now;
-            throw new BufferAPIError(
-                'RATE_LIMIT_EXCEEDED',
-                `Rate limit exceeded. Try again in ${Math.ceil(waitTime / 1000)} seconds.`,
-                429
-            );
+        return this.tokens;
+    }
+
+    private async ensureFreshToken(): Promise<void> {
+        const expiresAt = this.tokens?.expires_at;
+        if (!expiresAt || !this.tokens?.refresh_token) {
+            return;
         }
 
-        this.rateLimitState.requests++;
+        if (Date.now() >= expiresAt - this.config.tokenRefreshMargin) {
+            await this.refreshAccessToken();
+        }
     }
 
-    private handleAPIError(error: any): BufferAPIError {
-        if (error.response) {
-            const { status, data } = error.response;
-            const errorData = data as any;
-
-            return new BufferAPIError(
-                errorData?.code || `HTTP_${status}`,
-                errorData?.message || error.message,
-                status,
-                errorData
-            );
+    // Adds a middleware to the request pipeline. Middlewares run in registration order,
+    // after authentication and before rate limiting, error mapping and the transport.
+    public use(middleware: BufferMiddleware): this {
+        this.middlewares.push(middleware);
+        this.pipeline = undefined;
+        return this;
+    }
+
+    // Current limiter capacity, queue depth and the estimated wait for a new request
+    public getRateLimitStatus(): RateLimiterStatus {
+        return this.rateLimiter.getStatus();
+    }
+
+    // Breaker state for an endpoint group; always 'closed' when the breaker is disabled
+    public getCircuitState(group: EndpointGroup): CircuitState {
+        return this.getCircuitBreaker(group)?.getState() ?? 'closed';
+    }
+
+    // Subscribes to circuit state changes of every endpoint group; returns an unsubscribe function
+    public onCircuitStateChange(listener: (event: CircuitStateChangeEvent) => void): () => void {
+        this.circuitListeners.add(listener);
+        return () => {
+            this.circuitListeners.delete(listener);
+        };
+    }
+
+    private getCircuitBreaker(group: EndpointGroup): CircuitBreaker | undefined {
+        const options: CircuitBreakerOptions | false = this.config.circuitBreaker;
+        if (!options) {
+            return undefined;
         }
 
-        if (error.request) {
-            return new BufferAPIError(
-                'NETWORK_ERROR',
-                'No response received from Buffer API',
-                undefined,
-                { originalError: error.message }
-            );
+        let breaker = this.circuitBreakers.get(group);
+        if (!breaker) {
+            breaker = new CircuitBreaker(group, options, event => {
+                options.onStateChange?.(event);
+                this.circuitListeners.forEach(listener => listener(event));
+            });
+            this.circuitBreakers.set(group, breaker);
         }
+        return breaker;
+    }
 
-        return new BufferAPIError(
-            'REQUEST_ERROR',
-            error.message,
-            undefined,
-            { originalError: error.message }
-        );
+    public getStats(): BufferClientStats {
+        const { remaining, resetAt } = this.rateLimiter.getStatus();
+        return {
+            ...this.stats,
+            rateLimitRemaining: remaining,
+            rateLimitReset: resetAt,
+        };
     }
 
-    private async retryRequest<T>(
-        requestFn: () => Promise<T>,
-        currentAttempt = 1
-    ): Promise<T> {
+    // Sends a request through the middleware pipeline: retry -> circuit breaker -> auth -> custom -> rate limit -> error mapping -> transport
+    private async request<T>(
+        method: HTTPMethod,
+        path: string,
+        init: { group?: EndpointGroup; params?: BufferRequest['params']; body?: any; headers?: Record<string, string> } = {},
+        options: RequestOptions = {}
+    ): Promise<BufferResponse<T>> {
+        throwIfAborted(options.signal);
+
+        if (!this.pipeline) {
+            this.pipeline = composeMiddleware([
+                this.retryMiddleware,
+                this.circuitBreakerMiddleware,
+                this.authMiddleware,
+                ...this.middlewares,
+                this.rateLimitMiddleware,
+                this.errorMappingMiddleware,
+            ], request => this.send(request));
+        }
+
         try {
-            return await requestFn();
+            return await this.pipeline({
+                method,
+                path,
+                params: init.params,
+                body: init.body,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'BufferOptimizer/1.0.0',
+                    ...init.headers,
+                },
+                attempt: 1,
+                metadata: {},
+                options,
+                group: init.group,
+            });
         } catch (error) {
-            if (currentAttempt >= this.retryConfig.attempts) {
-                throw error;
+            throw this.handleAPIError(error);
+        }
+    }
+
+    // Terminal step of the pipeline: hands the normalized request to the HTTP client
+    private async send(request: BufferRequest): Promise<BufferResponse> {
+        const url = this.resolveUrl(request.path);
+        const config = {
+            params: request.params,
+            headers: request.headers,
+            timeout: request.options.timeout ?? this.config.timeout,
+            signal: request.options.signal,
+        };
+
+        this.stats.requestCount++;
+        this.stats.lastRequestTime = Date.now();
+
+        let response: any;
+        try {
+            switch (request.method) {
+                case 'GET':
+                    response = await this.httpClient.get(url, config);
+                    break;
+                case 'POST':
+                    response = await this.httpClient.post(url, request.body, config);
+                    break;
+                case 'PUT':
+                    response = await this.httpClient.put(url, request.body, config);
+                    break;
+                case 'DELETE':
+                    response = await this.httpClient.delete(url, config);
+                    break;
+            }
+        } catch (error) {
+            this.stats.errorCount++;
+            throw error;
+        }
+
+        return {
+            status: response?.status ?? 200,
+            data: response?.data,
+            headers: normalizeHeaders(response?.headers),
+            request,
+        };
+    }
+
+    private resolveUrl(url: string): string {
+        if (/^[a-z][a-z\d+\-.]*:\/\//i.test(url)) {
+            return url;
+        }
+        return `${this.config.baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+    }
+
+    // Runs once per attempt, so a circuit that opens mid-retry stops the remaining attempts
+    private circuitBreakerMiddleware: BufferMiddleware = async (request, next) => {
+        const breaker = request.group && this.getCircuitBreaker(request.group);
+        if (!breaker) {
+            return next(request);
+        }
+
+        breaker.beforeRequest();
+        try {
+            const response = await next(request);
+            breaker.recordSuccess();
+            return response;
+        } catch (rawError) {
+            const error = this.handleAPIError(rawError);
+            if (isCircuitFailure(error)) {
+                breaker.recordFailure();
+            } else if (error.headers) {
+                // Any other HTTP response proves the API is reachable
+                breaker.recordSuccess();
+            } else {
+                breaker.release();
             }
+            throw error;
+        }
+    };
+
+    // Retries transient failures according to the client's retry policy and any per-call override
+    private retryMiddleware: BufferMiddleware = async (request, next) => {
+        const policy = mergeRetryPolicy(this.retryPolicy, request.options.retry);
+        const shouldRetry = policy.shouldRetry || isRetryableError;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await next({ ...request, headers: { ...request.headers }, attempt });
+            } catch (rawError) {
+                const error = this.handleAPIError(rawError);
+
+                if (attempt >= policy.attempts || !shouldRetry(error, attempt) || !isSafeToRetry(request, error, policy)) {
+                    throw error;
+                }
 
-            // Only retry on certain error types
-            if (error instanceof BufferAPIError) {
-                const retryableCodes = ['NETWORK_ERROR', 'TIMEOUT', 'HTTP_500', 'HTTP_502', 'HTTP_503'];
-                if (!retryableCodes.includes(error.code)) {
+                // A 429 from the API is retried after the delay the server asked for
+                const serverDelay = this.getServerRetryDelay(error);
+                if (serverDelay !== undefined && serverDelay > this.config.rateLimit.maxWaitMs) {
                     throw error;
                 }
+
+                const delayMs = serverDelay ?? computeRetryDelay(policy, attempt);
+                policy.onRetry?.({ error, attempt, delayMs, request });
+                await this.sleep(delayMs, request.options.signal);
             }
+        }
+    };
 
-            const delay = this.retryConfig.delay * Math.pow(this.retryConfig.backoffFactor, currentAttempt - 1);
-            await this.sleep(delay);
+    // Attaches the bearer token, refreshing it before expiry and once more after a 401
+    private authMiddleware: BufferMiddleware = async (request, next) => {
+        await this.ensureFreshToken();
+        const sentToken = this.tokens?.access_token;
 
-            return this.retryRequest(requestFn, currentAttempt + 1);
+        try {
+            return await next(this.withAuthorization(request));
+        } catch (rawError) {
+            const error = this.handleAPIError(rawError);
+            if (error.statusCode !== 401 || !this.tokens?.refresh_token) {
+                throw error;
+            }
+
+            // Expired or revoked token: refresh once and replay the request, unless a concurrent
+            // request has already replaced the token this one was sent with
+            if (this.tokens.access_token === sentToken) {
+                await this.refreshAccessToken();
+            }
+            return next(this.withAuthorization(request));
+        }
+    };
+
+    // Waits for limiter capacity, then keeps the limiter in sync with the API's rate limit headers
+    private rateLimitMiddleware: BufferMiddleware = async (request, next) => {
+        await this.rateLimiter.acquire(request.options.signal);
+
+        try {
+            const response = await next(request);
+            this.rateLimiter.syncFromServer(parseRateLimitHeaders(response.headers));
+            return response;
+        } catch (error) {
+            if (error instanceof BufferAPIError && error.headers) {
+                this.rateLimiter.syncFromServer(parseRateLimitHeaders(error.headers));
+            }
+            throw error;
+        }
+    };
+
+    // Delay requested by a server-side 429, from Retry-After or X-RateLimit-Reset
+    private getServerRetryDelay(error: BufferAPIError): number | undefined {
+        if (error.statusCode !== 429 || !error.headers) {
+            return undefined;
+        }
+
+        const { retryAfterMs, resetAt } = parseRateLimitHeaders(error.headers);
+        if (retryAfterMs !== undefined) {
+            return retryAfterMs;
+        }
+        if (resetAt !== undefined) {
+            return Math.max(0, resetAt - Date.now());
+        }
+        return undefined;
+    }
+
+    private errorMappingMiddleware: BufferMiddleware = async (request, next) => {
+        try {
+            return await next(request);
+        } catch (error) {
+            throw this.handleAPIError(error);
+        }
+    };
+
+    private withAuthorization(request: BufferRequest): BufferRequest {
+        if (!this.config.accessToken) {
+            return request;
         }
+        return { ...request, headers: { ...request.headers, Authorization: `Bearer ${this.config.accessToken}` } };
+    }
+
+    private handleAPIError(error: any): BufferAPIError {
+        return toBufferAPIError(error);
     }
 
-    private sleep(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
+    private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return abortableSleep(ms, signal);
     }
 
     // Profiles API
     public readonly profiles = {
-        list: async (): Promise<BufferProfile[]> => {
+        list: async (requestOptions: RequestOptions = {}): Promise<BufferProfile[]> => {
             if (this.config.bufferSDK.sdkMockMode) {
-                return this.generateMockProfiles();
+                return this.getMockProfiles();
             }
 
-            return this.retryRequest(async () => {
-                const response = await this.httpClient.get<APIResponse<BufferProfile[]>>('/profiles.json');
-                return response.data?.data || [];
-            });
+            const response = await this.request<APIResponse<BufferProfile[]>>('GET', '/profiles.json', { group: 'profiles' }, requestOptions);
+            const profiles = response.data?.data || [];
+            profiles.forEach(profile => this.profilePlatforms.set(profile.id, profile.service));
+            return profiles;
         },
 
-        get: async (profileId: string): Promise<BufferProfile> => {
+        get: async (profileId: string, requestOptions: RequestOptions = {}): Promise<BufferProfile> => {
             if (this.config.bufferSDK.sdkMockMode) {
-                const profiles = await this.generateMockProfiles();
-                const profile = profiles.find(p => p.id === profileId);
+                const profile = this.getMockProfiles().find(p => p.id === profileId);
                 if (!profile) {
-                    throw new BufferAPIError('PROFILE_NOT_FOUND', `Profile ${profileId} not found`, 404);
+                    throw new NotFoundError('PROFILE_NOT_FOUND', `Profile ${profileId} not found`, 404);
                 }
                 return profile;
             }
 
-            return this.retryRequest(async () => {
-                const response = await this.httpClient.get<APIResponse<BufferProfile>>(`/profiles/${profileId}.json`);
-                if (!response.data?.data) {
-                    throw new BufferAPIError('PROFILE_NOT_FOUND', `Profile ${profileId} not found`, 404);
+            const response = await this.request<APIResponse<BufferProfile>>('GET', `/profiles/${profileId}.json`, { group: 'profiles' }, requestOptions);
+            if (!response.data?.data) {
+                throw new NotFoundError('PROFILE_NOT_FOUND', `Profile ${profileId} not found`, 404);
+            }
+            this.profilePlatforms.set(profileId, response.data.data.service);
+            return response.data.data;
+        },
+
+        update: async (profileId: string, data: ProfileUpdateData, requestOptions: RequestOptions = {}): Promise<BufferProfile> => {
+            if (data.timezone !== undefined) {
+                assertTimezone(data.timezone);
+            }
+
+            if (this.config.bufferSDK.sdkMockMode) {
+                await this.profiles.get(profileId, requestOptions);
+                if (data.default) {
+                    this.getMockProfiles().forEach(profile => this.setMockProfileChanges(profile.id, { default: false }));
                 }
-                return response.data.data;
-            });
+                this.setMockProfileChanges(profileId, data);
+                return this.profiles.get(profileId, requestOptions);
+            }
+
+            const response = await this.request<APIResponse<BufferProfile>>('PUT', `/profiles/${profileId}.json`, {
+                group: 'profiles',
+                body: data,
+            }, requestOptions);
+            if (!response.data?.data) {
+                throw new BufferAPIError('PROFILE_UPDATE_FAILED', `Failed to update profile ${profileId}`);
+            }
+            return response.data.data;
+        },
+
+        // Posting schedules are returned and stored in canonical form: days sharing the same times are grouped
+        schedules: {
+            get: async (profileId: string, requestOptions: RequestOptions = {}): Promise<PostingSchedule[]> => {
+                if (this.config.bufferSDK.sdkMockMode) {
+                    const profile = await this.profiles.get(profileId, requestOptions);
+                    return profile.schedules;
+                }
+
+                const response = await this.request<APIResponse<PostingSchedule[]>>('GET', `/profiles/${profileId}/schedules.json`, {
+                    group: 'profiles',
+                }, requestOptions);
+                return response.data?.data || [];
+            },
+
+            set: async (profileId: string, schedules: PostingSchedule[], requestOptions: RequestOptions = {}): Promise<PostingSchedule[]> => {
+                const normalized = normalizeSchedules(schedules);
+
+                if (this.config.bufferSDK.sdkMockMode) {
+                    await this.profiles.get(profileId, requestOptions);
+                    this.setMockProfileChanges(profileId, { schedules: normalized });
+                    return normalized;
+                }
+
+                const response = await this.request<APIResponse<PostingSchedule[]>>('PUT', `/profiles/${profileId}/schedules.json`, {
+                    group: 'profiles',
+                    body: { schedules: normalized },
+                }, requestOptions);
+                return response.data?.data || normalized;
+            },
+
+            addSlot: async (profileId: string, day: string, time: string, requestOptions: RequestOptions = {}): Promise<PostingSchedule[]> => {
+                const current = await this.profiles.schedules.get(profileId, requestOptions);
+                return this.profiles.schedules.set(profileId, addScheduleSlot(current, day, time), requestOptions);
+            },
+
+            removeSlot: async (profileId: string, day: string, time: string, requestOptions: RequestOptions = {}): Promise<PostingSchedule[]> => {
+                const current = await this.profiles.schedules.get(profileId, requestOptions);
+                return this.profiles.schedules.set(profileId, removeScheduleSlot(current, day, time), requestOptions);
+            },
         },
     };
 
+    private async *iteratePosts(profileId: string, options: PostListOptions, requestOptions: RequestOptions): AsyncGenerator<BufferPost, void, undefined> {
+        for (let page = options.page || 1; ; page++) {
+            const result = await this.posts.listPage(profileId, { ...options, page }, requestOptions);
+            yield* result.items;
+
+            if (!result.hasMore || result.items.length === 0) {
+                return;
+            }
+        }
+    }
+
+    // Applies the client's `links` options merged with the post's `utm` to the text and thread segments
+    private async rewritePostLinks(
+        profileId: string,
+        post: CreatePostData,
+        utm: UtmTemplate | false | undefined,
+        campaign: string | undefined,
+        requestOptions: RequestOptions
+    ): Promise<{ body: CreatePostData; links: PostLink[] }> {
+        const configured: LinkProcessingOptions = this.config.links;
+        const template = utm === false ? undefined : { ...configured.utm, ...utm };
+        const shortener = post.shorten === false ? undefined : configured.shortener;
+        const texts = [post.text || '', ...(post.thread || []).map(segment => segment.text || '')];
+
+        const hasTemplate = Boolean(template && Object.keys(template).length > 0);
+        if ((!hasTemplate && !shortener) || !texts.some(text => findUrls(text).length > 0)) {
+            return { body: post, links: [] };
+        }
+
+        const context = { platform: await this.getProfilePlatform(profileId, requestOptions), profileId, campaign };
+        const { texts: [text, ...segments], links } = await rewriteLinks(texts, {
+            utm: hasTemplate ? template : undefined,
+            shortener,
+        }, context);
+
+        const body: CreatePostData = { ...post, text };
+        if (post.thread) {
+            body.thread = post.thread.map((segment, index) => ({ ...segment, text: segments[index] }));
+        }
+        if (shortener) {
+            // Already short; keeps the API from wrapping them a second time
+            body.shorten = false;
+        }
+        return { body, links };
+    }
+
+    // A profile never changes network, so the lookup is cached per client
+    private async getProfilePlatform(profileId: string, requestOptions: RequestOptions): Promise<SocialPlatform> {
+        return this.profilePlatforms.get(profileId) || (await this.profiles.get(profileId, requestOptions)).service;
+    }
+
+    // Loads the post, checks that `action` is allowed in its current status, then applies it
+    private async changePost(
+        postId: string,
+        action: PostAction,
+        requestOptions: RequestOptions,
+        applyMock: (post: BufferPost) => BufferPost,
+        send: () => Promise<BufferResponse<APIResponse<BufferPost>>>
+    ): Promise<BufferPost> {
+        const current = await this.posts.get(postId, requestOptions);
+        assertPostAction(current, action);
+
+        if (this.config.bufferSDK.sdkMockMode) {
+            const updated = applyMock({ ...current });
+            if (action === 'delete') {
+                this.mockPosts.delete(postId);
+                this.mockDeletedPosts.add(postId);
+                // A deleted post no longer answers its idempotency key, so a retry creates a new post
+                for (const [key, id] of this.mockIdempotencyKeys) {
+                    if (id === postId) {
+                        this.mockIdempotencyKeys.delete(key);
+                    }
+                }
+            } else {
+                this.mockPosts.set(postId, updated);
+            }
+            return updated;
+        }
+
+        const response = await send();
+        if (!response.data?.data) {
+            throw new BufferAPIError('POST_UPDATE_FAILED', `Failed to ${action} post ${postId}`);
+        }
+        return response.data.data;
+    }
+
     // Posts API
     public readonly posts = {
-        list: async (profileId: string, options: PostListOptions = {}): Promise<BufferPost[]> => {
+        list: async (profileId: string, options: PostListOptions = {}, requestOptions: RequestOptions = {}): Promise<BufferPost[]> => {
+            const { items } = await this.posts.listPage(profileId, options, requestOptions);
+            return items;
+        },
+
+        listPage: async (profileId: string, options: PostListOptions = {}, requestOptions: RequestOptions = {}): Promise<PostPage> => {
+            const page = options.page || 1;
+            const count = options.count || DEFAULT_PAGE_SIZE;
+
             if (this.config.bufferSDK.sdkMockMode) {
-                return this.generateMockPosts(profileId, options);
+                throwIfAborted(requestOptions.signal);
+                return this.generateMockPostPage(profileId, { ...options, page, count });
             }
 
-            return this.retryRequest(async () => {
-                const params = new URLSearchParams();
-                if (options.page) params.append('page', options.page.toString());
-                if (options.count) params.append('count', options.count.toString());
-                if (options.since) params.append('since', options.since);
-                if (options.until) params.append('until', options.until);
-                if (options.status) params.append('status', options.status);
+            const response = await this.request<APIResponse<BufferPost[]>>('GET', `/profiles/${profileId}/updates.json`, {
+                group: 'posts',
+                params: {
+                    page,
+                    count,
+                    since: options.since,
+                    until: options.until,
+                    status: options.status,
+                },
+            }, requestOptions);
+
+            const items = response.data?.data || [];
+            const pagination = response.data?.pagination;
+            const total = pagination?.total;
+            let hasMore = items.length >= count;
+            if (pagination?.has_more !== undefined) {
+                hasMore = pagination.has_more;
+            } else if (total !== undefined) {
+                hasMore = page * count < total;
+            }
 
-                const response = await this.httpClient.get<APIResponse<BufferPost[]>>(
-                    `/profiles/${profileId}/updates.json?${params}`
-                );
-                return response.data?.data || [];
-            });
+            return { items, page, hasMore, total };
         },
 
-        get: async (postId: string): Promise<BufferPost> => {
+        // Creates posts on many profiles at once; one failing profile does not stop the others unless `stopOnError` is set
+        createMany: async (
+            items: BulkCreatePostItem[],
+            options: BatchOperationOptions = {},
+            requestOptions: RequestOptions = {}
+        ): Promise<BatchOperationResult<BufferPost>> => {
+            return runBatch(items, item => this.posts.create(item.profileId, item.data, requestOptions), options);
+        },
+
+        deleteMany: async (
+            postIds: string[],
+            options: BatchOperationOptions = {},
+            requestOptions: RequestOptions = {}
+        ): Promise<BatchOperationResult<BufferPost>> => {
+            return runBatch(postIds, postId => this.posts.delete(postId, requestOptions), options);
+        },
+
+        rescheduleMany: async (
+            items: BulkRescheduleItem[],
+            options: BatchOperationOptions = {},
+            requestOptions: RequestOptions = {}
+        ): Promise<BatchOperationResult<BufferPost>> => {
+            return runBatch(items, item => this.posts.reschedule(item.postId, item.scheduledAt, requestOptions), options);
+        },
+
+        // Lazily walks every page from `options.page` (default 1) until the API reports no more posts
+        iterate: (profileId: string, options: PostListOptions = {}, requestOptions: RequestOptions = {}): AsyncIterable<BufferPost> => {
+            return this.iteratePosts(profileId, options, requestOptions);
+        },
+
+        get: async (postId: string, requestOptions: RequestOptions = {}): Promise<BufferPost> => {
             if (this.config.bufferSDK.sdkMockMode) {
-                return this.generateMockPost(postId);
+                if (this.mockDeletedPosts.has(postId)) {
+                    throw new NotFoundError('POST_NOT_FOUND', `Post ${postId} not found`, 404);
+                }
+                return this.mockPosts.get(postId) || this.generateMockPost(postId);
             }
 
-            return this.retryRequest(async () => {
-                const response = await this.httpClient.get<APIResponse<BufferPost>>(`/updates/${postId}.json`);
-                if (!response.data?.data) {
-                    throw new BufferAPIError('POST_NOT_FOUND', `Post ${postId} not found`, 404);
-                }
-                return response.data.data;
-            });
+            const response = await this.request<APIResponse<BufferPost>>('GET', `/updates/${postId}.json`, { group: 'posts' }, requestOptions);
+            if (!response.data?.data) {
+                throw new NotFoundError('POST_NOT_FOUND', `Post ${postId} not found`, 404);
+            }
+            return response.data.data;
         },
 
-        create: async (profileId: string, data: CreatePostData): Promise<BufferPost> => {
-            if (this.config.bufferSDK.sdkMockMode) {
-                return this.generateMockPost(`mock_${Date.now()}`, data);
+        // Tags and shortens links, then checks the post against the profile's platform rules unless `validate: false` or `validatePosts: false`
+        create: async (profileId: string, data: CreatePostData, requestOptions: RequestOptions = {}): Promise<BufferPost> => {
+            const { idempotencyKey = await createIdempotencyKey(), validate = this.config.validatePosts, utm, campaign, ...post } = data;
+            const { body, links } = await this.rewritePostLinks(profileId, post, utm, campaign, requestOptions);
+
+            if (validate) {
+                assertValidPost(await this.getProfilePlatform(profileId, requestOptions), body);
             }
 
-            return this.retryRequest(async () => {
-                const response = await this.httpClient.post<APIResponse<BufferPost>>(
-                    `/updates/${profileId}.json`,
-                    data
-                );
+            let created: BufferPost;
+            if (this.config.bufferSDK.sdkMockMode) {
+                created = this.createMockPost(profileId, body, idempotencyKey, links);
+            } else {
+                const response = await this.request<APIResponse<BufferPost>>('POST', `/updates/${profileId}.json`, {
+                    group: 'posts',
+                    // The link records are stored with the post, so posts.get returns them for click attribution
+                    body: links.length > 0 ? { ...body, links } : body,
+                    headers: { 'Idempotency-Key': idempotencyKey },
+                }, requestOptions);
                 if (!response.data?.data) {
                     throw new BufferAPIError('POST_CREATE_FAILED', 'Failed to create post');
                 }
-                return response.data.data;
-            });
+                created = response.data.data;
+            }
+            return links.length > 0 ? { ...created, links } : created;
+        },
+
+        // Schedules the post for the profile's next free slot
+        addToQueue: async (
+            profileId: string,
+            data: Omit<CreatePostData, 'scheduled_at' | 'now'>,
+            requestOptions: RequestOptions = {}
+        ): Promise<BufferPost> => {
+            const [slot] = await this.schedule.nextSlots(profileId, 1, requestOptions);
+            if (!slot) {
+                throw new ValidationError('VALIDATION_ERROR', `Profile ${profileId} has no posting schedule`, 400, {
+                    fieldErrors: [{ field: 'schedules', message: 'Add at least one posting slot before queueing posts' }],
+                });
+            }
+
+            return this.posts.create(profileId, { ...data, scheduled_at: slot.scheduledAt }, requestOptions);
+        },
+
+        update: async (postId: string, data: UpdatePostData, requestOptions: RequestOptions = {}): Promise<BufferPost> => {
+            const body = data.scheduled_at ? { ...data, scheduled_at: toScheduledAt(data.scheduled_at) } : data;
+
+            return this.changePost(postId, 'update', requestOptions, post => this.applyMockUpdate(post, body), () =>
+                this.request('PUT', `/updates/${postId}.json`, { group: 'posts', body }, requestOptions)
+            );
+        },
+
+        // Resolves with the post as it was before deletion
+        delete: async (postId: string, requestOptions: RequestOptions = {}): Promise<BufferPost> => {
+            return this.changePost(postId, 'delete', requestOptions, post => post, () =>
+                this.request('DELETE', `/updates/${postId}.json`, { group: 'posts' }, requestOptions)
+            );
         },
 
-        analytics: async (postId: string): Promise<PostAnalytics> => {
+        // Publishes immediately; sent with an idempotency key so a retry cannot publish twice
+        shareNow: async (postId: string, requestOptions: RequestOptions = {}): Promise<BufferPost> => {
+            const idempotencyKey = await createIdempotencyKey();
+
+            return this.changePost(postId, 'shareNow', requestOptions, post => ({
+                ...post,
+                status: 'sent',
+                due_at: Date.now(),
+                sent_at: Date.now(),
+            }), () => this.request('POST', `/updates/${postId}/share.json`, {
+                group: 'posts',
+                headers: { 'Idempotency-Key': idempotencyKey },
+            }, requestOptions));
+        },
+
+        moveToDrafts: async (postId: string, requestOptions: RequestOptions = {}): Promise<BufferPost> => {
+            return this.changePost(postId, 'moveToDrafts', requestOptions, post => ({
+                ...post,
+                status: 'draft',
+                due_at: undefined,
+            }), () => this.request('POST', `/updates/${postId}/move_to_drafts.json`, { group: 'posts' }, requestOptions));
+        },
+
+        // Schedules a queued, draft or failed post for `scheduledAt`, putting it back in the queue
+        reschedule: async (postId: string, scheduledAt: Date | string, requestOptions: RequestOptions = {}): Promise<BufferPost> => {
+            const scheduled_at = toScheduledAt(scheduledAt);
+
+            return this.changePost(postId, 'reschedule', requestOptions, post => ({
+                ...post,
+                status: 'buffer',
+                due_at: Date.parse(scheduled_at),
+            }), () => this.request('PUT', `/updates/${postId}.json`, { group: 'posts', body: { scheduled_at } }, requestOptions));
+        },
+
+        analytics: async (postId: string, requestOptions: RequestOptions = {}): Promise<PostAnalytics> => {
             if (this.config.bufferSDK.sdkMockMode) {
                 return this.generateMockPostAnalytics(postId);
             }
 
-            return this.retryRequest(async () => {
-                const response = await this.httpClient.get<APIResponse<PostAnalytics>>(
-                    `/updates/${postId}/interactions.json`
-                );
+            const response = await this.request<APIResponse<PostAnalytics>>('GET', `/updates/${postId}/interactions.json`, { group: 'analytics' }, requestOptions);
+            if (!response.data?.data) {
+                throw new NotFoundError('ANALYTICS_NOT_FOUND', `Analytics for post ${postId} not found`, 404);
+            }
+            return response.data.data;
+        },
+    };
+
+    // Queue API
+    public readonly queue = {
+        // Buffered posts in publishing order, with slot times computed from the profile's schedules and timezone
+        get: async (profileId: string, requestOptions: RequestOptions = {}): Promise<ProfileQueue> => {
+            const profile = await this.profiles.get(profileId, requestOptions);
+            const posts = await this.getBufferedPosts(profileId, requestOptions);
+            const paused = this.config.bufferSDK.sdkMockMode ? this.mockPausedProfiles.has(profileId) : Boolean(profile.paused);
+
+            return buildQueue(profile, posts, paused);
+        },
+
+        // Moves `postIds` to the front of the queue in the given order
+        reorder: async (profileId: string, postIds: string[], requestOptions: RequestOptions = {}): Promise<ProfileQueue> => {
+            const current = await this.queue.get(profileId, requestOptions);
+            const order = resolveQueueOrder(current.posts.map(post => post.id), postIds);
+
+            if (this.config.bufferSDK.sdkMockMode) {
+                this.mockQueueOrder.set(profileId, order);
+            } else {
+                await this.request('POST', `/profiles/${profileId}/updates/reorder.json`, {
+                    group: 'posts',
+                    body: { order },
+                }, requestOptions);
+            }
+            return this.queue.get(profileId, requestOptions);
+        },
+
+        shuffle: async (profileId: string, requestOptions: RequestOptions = {}): Promise<ProfileQueue> => {
+            if (this.config.bufferSDK.sdkMockMode) {
+                const current = await this.queue.get(profileId, requestOptions);
+                this.mockQueueOrder.set(profileId, shuffleIds(current.posts.map(post => post.id)));
+            } else {
+                await this.request('POST', `/profiles/${profileId}/updates/shuffle.json`, { group: 'posts' }, requestOptions);
+            }
+            return this.queue.get(profileId, requestOptions);
+        },
+
+        moveToTop: async (postId: string, requestOptions: RequestOptions = {}): Promise<ProfileQueue> => {
+            const post = await this.posts.get(postId, requestOptions);
+            assertPostAction(post, 'moveToTop');
+
+            if (this.config.bufferSDK.sdkMockMode) {
+                const current = await this.queue.get(post.profile_id, requestOptions);
+                this.mockQueueOrder.set(post.profile_id, resolveQueueOrder(current.posts.map(queued => queued.id), [postId]));
+            } else {
+                await this.request('POST', `/updates/${postId}/move_to_top.json`, { group: 'posts' }, requestOptions);
+            }
+            return this.queue.get(post.profile_id, requestOptions);
+        },
+
+        // Stops publishing from the profile's queue without discarding it
+        pause: async (profileId: string, requestOptions: RequestOptions = {}): Promise<ProfileQueue> => {
+            return this.setQueuePaused(profileId, true, requestOptions);
+        },
+
+        resume: async (profileId: string, requestOptions: RequestOptions = {}): Promise<ProfileQueue> => {
+            return this.setQueuePaused(profileId, false, requestOptions);
+        },
+    };
+
+    // Buffered posts in queue order
+    private async getBufferedPosts(profileId: string, requestOptions: RequestOptions): Promise<BufferPost[]> {
+        if (this.config.bufferSDK.sdkMockMode) {
+            return this.getMockQueuePosts(profileId);
+        }
+
+        const posts: BufferPost[] = [];
+        for await (const post of this.posts.iterate(profileId, { status: 'buffer' }, requestOptions)) {
+            posts.push(post);
+        }
+        return posts;
+    }
+
+    // Schedule API
+    public readonly schedule = {
+        // The profile's next `count` posting slots after those the queue already fills, as UTC instants
+        nextSlots: async (profileId: string, count = 1, requestOptions: RequestOptions = {}): Promise<ScheduleSlot[]> => {
+            const profile = await this.profiles.get(profileId, requestOptions);
+            const queue = buildQueue(profile, await this.getBufferedPosts(profileId, requestOptions), false);
+
+            return computeFreeSlots(profile.schedules, profile.timezone, getQueuedSlotTimes(queue), count);
+        },
+    };
+
+    // Recurring and evergreen posts. Series are kept in memory by this client; register them again after a restart.
+    public readonly recurring = {
+        // Registers a series; nothing is created until materialize()
+        add: async (definition: RecurringPostDefinition, requestOptions: RequestOptions = {}): Promise<RecurringPost> => {
+            const rule = normalizeRecurrenceRule(definition.rule);
+            const timezone = definition.timezone || (await this.profiles.get(definition.profileId, requestOptions)).timezone;
+            assertTimezone(timezone);
+
+            const series: RecurringPost = { ...definition, id: `recurring_${await createIdempotencyKey()}`, rule, timezone };
+            // An empty window still checks `start` and `time`
+            expandRecurrence(rule, series, 0, 0);
+            this.recurringSeries.set(series.id, series);
+            return series;
+        },
+
+        list: (): RecurringPost[] => Array.from(this.recurringSeries.values()),
+
+        remove: (seriesId: string): boolean => this.recurringSeries.delete(seriesId),
+
+        // Occurrences due in [from, to) with their text, without creating anything
+        preview: (seriesId: string, from: Date | string, to: Date | string): RecurrenceOccurrence[] => {
+            const series = this.recurringSeries.get(seriesId);
+            if (!series) {
+                throw new NotFoundError('RECURRING_SERIES_NOT_FOUND', `Recurring series ${seriesId} not found`, 404);
+            }
+            return this.getOccurrences(series, new Date(from).getTime(), new Date(to).getTime());
+        },
+
+        // Creates buffered posts for every series occurrence due in [from, to). Occurrences already created are skipped,
+        // and each one uses a stable idempotency key, so overlapping windows never publish twice.
+        materialize: async (
+            from: Date | string,
+            to: Date | string,
+            options: BatchOperationOptions = {},
+            requestOptions: RequestOptions = {}
+        ): Promise<BatchOperationResult<BufferPost>> => {
+            const start = Math.max(Date.now(), new Date(from).getTime());
+            const pending = this.recurring.list()
+                .flatMap(series => this.getOccurrences(series, start, new Date(to).getTime()).map(occurrence => ({ series, occurrence })))
+                .filter(({ occurrence }) => !this.materializedOccurrences.has(`${occurrence.seriesId}:${occurrence.index}`));
+
+            return runBatch(pending, async ({ series, occurrence }) => {
+                const key = `${occurrence.seriesId}:${occurrence.index}`;
+                const post = await this.posts.create(series.profileId, {
+                    ...series.data,
+                    text: occurrence.text,
+                    scheduled_at: occurrence.scheduledAt,
+                    idempotencyKey: key,
+                }, requestOptions);
+                this.materializedOccurrences.add(key);
+                return post;
+            }, options);
+        },
+
+        // Re-queues the profile's best posts from analytics.posts into free schedule slots, at least `minGapDays`
+        // after each post was last shared. Posts without a free slot are left out.
+        recycle: async (profileId: string, options: EvergreenOptions = {}, requestOptions: RequestOptions = {}): Promise<BatchOperationResult<BufferPost>> => {
+            const profile = await this.profiles.get(profileId, requestOptions);
+            const analytics = await this.analytics.posts(profileId, { timeRange: options.timeRange || '90d' }, requestOptions);
+            const queue = buildQueue(profile, await this.getBufferedPosts(profileId, requestOptions), false);
+            const taken = getQueuedSlotTimes(queue);
+
+            const candidates = selectEvergreenPosts(analytics.filter(post => post.profileId === profileId), this.evergreenShares, options);
+            const plans = candidates.flatMap(({ post, contentKey, notBefore }) => {
+                const [slot] = computeFreeSlots(profile.schedules, profile.timezone, taken, 1, notBefore);
+                if (!slot) {
+                    return [];
+                }
+                taken.push(slot.dueAt);
+                return [{ post, contentKey, slot }];
+            });
+
+            return runBatch(plans, async ({ post, contentKey, slot }) => {
+                // Analytics only carry the text; the original supplies the media, thread and carousel
+                const original = await this.posts.get(post.postId, requestOptions);
+                const created = await this.posts.create(profileId, {
+                    text: post.text,
+                    media: original.media,
+                    thread: original.thread,
+                    carousel: original.carousel,
+                    scheduled_at: slot.scheduledAt,
+                }, requestOptions);
+                this.evergreenShares.set(contentKey, slot.dueAt);
+                return created;
+            });
+        },
+    };
+
+    private getOccurrences(series: RecurringPost, from: number, to: number): RecurrenceOccurrence[] {
+        const variations = series.variations?.length ? series.variations : [series.data.text];
+
+        return expandRecurrence(series.rule, series, from, to).map(({ index, dueAt }) => ({
+            seriesId: series.id,
+            index,
+            dueAt,
+            scheduledAt: new Date(dueAt).toISOString(),
+            text: variations[index % variations.length],
+        }));
+    }
+
+    private async setQueuePaused(profileId: string, paused: boolean, requestOptions: RequestOptions): Promise<ProfileQueue> {
+        if (this.config.bufferSDK.sdkMockMode) {
+            await this.profiles.get(profileId, requestOptions);
+            if (paused) {
+                this.mockPausedProfiles.add(profileId);
+            } else {
+                this.mockPausedProfiles.delete(profileId);
+            }
+        } else {
+            await this.request('POST', `/profiles/${profileId}/${paused ? 'pause' : 'resume'}.json`, {
+                group: 'profiles',
+            }, requestOptions);
+        }
+        return this.queue.get(profileId, requestOptions);
+    }
+
+    // Media API
+    public readonly media = {
+        // Uploads a file path, Buffer or stream in `chunkSize` pieces; pass the returned handle in CreatePostData.media
+        upload: async (input: MediaUploadInput, options: MediaUploadOptions = {}, requestOptions: RequestOptions = {}): Promise<MediaHandle> => {
+            const chunkSize = options.chunkSize ?? DEFAULT_MEDIA_CHUNK_SIZE;
+            if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+                throw new ValidationError('VALIDATION_ERROR', 'chunkSize must be a positive integer', 400, {
+                    fieldErrors: [{ field: 'chunkSize', message: 'must be a positive integer' }],
+                });
+            }
+
+            throwIfAborted(requestOptions.signal);
+            const source = await openMediaInput(input);
+            try {
+                const filename = options.filename || source.filename;
+                const info = await inspectMedia(source, filename, options.mimeType);
+                const mockMode = this.config.bufferSDK.sdkMockMode;
+
+                let uploadId: string;
+                if (mockMode) {
+                    // A sequence, not the map size, so concurrent uploads never share an id
+                    uploadId = `media_mock_${++this.mockMediaSequence}`;
+                } else {
+                    const response = await this.request<APIResponse<{ upload_id: string }>>('POST', '/media/uploads.json', {
+                        group: 'media',
+                        body: {
+                            filename,
+                            mime_type: info.mimeType,
+                            size: info.size,
+                            width: info.width,
+                            height: info.height,
+                            duration: info.duration,
+                            alt_text: options.altText,
+                        },
+                    }, requestOptions);
+                    if (!response.data?.data?.upload_id) {
+                        throw new BufferAPIError('MEDIA_UPLOAD_FAILED', 'Failed to start media upload');
+                    }
+                    uploadId = response.data.data.upload_id;
+                }
+
+                // Chunks are sent with PUT so a failed chunk is retried on its own; streams report their total with the last chunk
+                let chunkIndex = 0;
+                let uploadedBytes = 0;
+                for await (const chunk of source.chunks(chunkSize)) {
+                    const start = uploadedBytes;
+                    uploadedBytes += chunk.length;
+                    assertMediaSize(info.type, uploadedBytes);
+
+                    if (mockMode) {
+                        throwIfAborted(requestOptions.signal);
+                    } else {
+                        await this.request('PUT', `/media/uploads/${uploadId}/chunks/${chunkIndex}.json`, {
+                            group: 'media',
+                            // A copy: axios sends `.buffer` for typed arrays, which for a subarray is the whole backing buffer
+                            body: new Uint8Array(chunk),
+                            headers: {
+                                'Content-Type': 'application/octet-stream',
+                                'Content-Range': `bytes ${start}-${uploadedBytes - 1}/${source.size ?? '*'}`,
+                            },
+                        }, requestOptions);
+                    }
+
+                    const totalBytes = source.size;
+                    options.onProgress?.({
+                        uploadedBytes,
+                        totalBytes,
+                        percent: totalBytes !== undefined ? Math.round((uploadedBytes / totalBytes) * 100) : undefined,
+                        chunkIndex,
+                        chunkCount: totalBytes !== undefined ? Math.ceil(totalBytes / chunkSize) : undefined,
+                    });
+                    chunkIndex++;
+                }
+
+                if (mockMode) {
+                    const handle: MediaHandle = {
+                        id: uploadId,
+                        type: info.type,
+                        url: `https://mock.buffer.local/media/${uploadId}/${filename || uploadId}`,
+                        alt_text: options.altText,
+                        mime_type: info.mimeType,
+                        size: uploadedBytes,
+                        width: info.width,
+                        height: info.height,
+                        duration: info.duration,
+                        filename,
+                    };
+                    this.mockMedia.set(uploadId, handle);
+                    return handle;
+                }
+
+                const response = await this.request<APIResponse<MediaHandle>>('POST', `/media/uploads/${uploadId}/complete.json`, {
+                    group: 'media',
+                }, requestOptions);
                 if (!response.data?.data) {
-                    throw new BufferAPIError('ANALYTICS_NOT_FOUND', `Analytics for post ${postId} not found`, 404);
+                    throw new BufferAPIError('MEDIA_UPLOAD_FAILED', `Failed to complete media upload ${uploadId}`);
                 }
                 return response.data.data;
-            });
+            } finally {
+                await source.close();
+            }
+        },
+
+        get: async (mediaId: string, requestOptions: RequestOptions = {}): Promise<MediaHandle> => {
+            if (this.config.bufferSDK.sdkMockMode) {
+                const handle = this.mockMedia.get(mediaId);
+                if (!handle) {
+                    throw new NotFoundError('MEDIA_NOT_FOUND', `Media ${mediaId} not found`, 404);
+                }
+                return handle;
+            }
+
+            const response = await this.request<APIResponse<MediaHandle>>('GET', `/media/${mediaId}.json`, { group: 'media' }, requestOptions);
+            if (!response.data?.data) {
+                throw new NotFoundError('MEDIA_NOT_FOUND', `Media ${mediaId} not found`, 404);
+            }
+            return response.data.data;
         },
     };
 
@@ -302,29 +1247,29 @@ export class BufferClient {
     }
 
 // Helper method to build URL parameters for analytics requests
-    private buildAnalyticsParams(options: Partial<AnalyticsOptions> = {}): URLSearchParams {
-        const params = new URLSearchParams();
+    private buildAnalyticsParams(options: Partial<AnalyticsOptions> = {}): Record<string, string> {
+        const params: Record<string, string> = {};
 
         // Handle different date specification methods
         if (options.start || options.end) {
             // Use explicit start/end dates if provided
-            if (options.start) params.append('start', options.start);
-            if (options.end) params.append('end', options.end);
+            if (options.start) params.start = options.start;
+            if (options.end) params.end = options.end;
         } else if (options.timeRange) {
             // Convert timeRange to start/end dates
             const { start, end } = this.convertTimeRangeToDateRange(options.timeRange);
-            params.append('start', start);
-            params.append('end', end);
+            params.start = start;
+            params.end = end;
         } else {
             // Default to last 30 days if nothing specified
             const { start, end } = this.convertTimeRangeToDateRange('30d');
-            params.append('start', start);
-            params.append('end', end);
+            params.start = start;
+            params.end = end;
         }
 
         // Add optional parameters
-        if (options.period) params.append('period', options.period);
-        if (options.groupBy) params.append('groupBy', options.groupBy);
+        if (options.period) params.period = options.period;
+        if (options.groupBy) params.groupBy = options.groupBy;
 
         return params;
     }
@@ -355,83 +1300,113 @@ export class BufferClient {
         options: Partial<AnalyticsOptions>,
         profileId: string,
         mockDataGenerator: (profileId: string, options: AnalyticsOptions) => T,
-        errorCode: string,
-        errorMessage: string
+        errorCode: BufferErrorCode,
+        errorMessage: string,
+        requestOptions: RequestOptions = {}
     ): Promise<T> {
         if (this.config.bufferSDK.sdkMockMode) {
             const completeOptions = this.createCompleteAnalyticsOptions(options);
             return mockDataGenerator(profileId, completeOptions);
         }
 
-        return this.retryRequest(async () => {
-            const params = this.buildAnalyticsParams(options);
-            const url = `${this.config.baseUrl}/profiles/${profileId}/${endpoint}?${params}`;
-
-            const response = await this.httpClient.get<APIResponse<T>>(url);
-            if (!response.data?.data) {
-                throw new BufferAPIError(errorCode, errorMessage, 404);
-            }
+        const response = await this.request<APIResponse<T>>('GET', `/profiles/${profileId}/${endpoint}`, {
+            group: 'analytics',
+            params: this.buildAnalyticsParams(options),
+        }, requestOptions);
+        if (!response.data?.data) {
+            throw new NotFoundError(errorCode, errorMessage, 404);
+        }
 
-            return response.data.data;
-        });
+        return response.data.data;
     }
 
 // Clean analytics API with DRY principles
     public readonly analytics = {
-        posts: async (profileId: string, options: Partial<AnalyticsOptions> = {}): Promise<PostAnalytics[]> => {
+        posts: async (profileId: string, options: Partial<AnalyticsOptions> = {}, requestOptions: RequestOptions = {}): Promise<PostAnalytics[]> => {
             return this.executeAnalyticsRequest(
                 'analytics/posts.json',
                 options,
                 profileId,
                 (id, opts) => this.generateMockAnalytics(id, opts),
                 'POSTS_NOT_FOUND',
-                `Analytics posts for profile ${profileId} not found`
+                `Analytics posts for profile ${profileId} not found`,
+                requestOptions
             );
         },
 
-        summary: async (profileId: string, options: Partial<AnalyticsOptions> = {}): Promise<AnalyticsSummary> => {
+        summary: async (profileId: string, options: Partial<AnalyticsOptions> = {}, requestOptions: RequestOptions = {}): Promise<AnalyticsSummary> => {
             return this.executeAnalyticsRequest(
                 'analytics/summary.json',
                 options,
                 profileId,
                 (id, opts) => this.generateMockSummary(id, opts),
                 'SUMMARY_NOT_FOUND',
-                `Summary for profile ${profileId} not found`
+                `Summary for profile ${profileId} not found`,
+                requestOptions
             );
         },
 
         // Easy to add new analytics endpoints without duplication
-        insights: async (profileId: string, options: Partial<AnalyticsOptions> = {}): Promise<any> => {
+        insights: async (profileId: string, options: Partial<AnalyticsOptions> = {}, requestOptions: RequestOptions = {}): Promise<any> => {
             return this.executeAnalyticsRequest(
                 'analytics/insights.json',
                 options,
                 profileId,
                 () => ({ insights: 'mock data' }), // Mock generator
                 'INSIGHTS_NOT_FOUND',
-                `Insights for profile ${profileId} not found`
+                `Insights for profile ${profileId} not found`,
+                requestOptions
             );
         },
     };
 
-    private async exchangeCodeForTokens({clientId, clientSecret, code, redirectUri}:
+    private async exchangeCodeForTokens({clientId, clientSecret, code, redirectUri, codeVerifier}:
                                             {
                                                 clientId: string,
                                                 clientSecret: string,
                                                 code: string,
-                                                redirectUri: string
+                                                redirectUri: string,
+                                                codeVerifier?: string
                                             }
     ): Promise<AuthTokens> {
-        const response = await this.httpClient.post('http://localhost:8083/api/v1/auth/oauth2/token.json', {
+        // Token calls bypass the pipeline: they must not be authenticated or replayed by the auth middleware
+        const response = await this.httpClient.post(OAUTH_TOKEN_URL, {
             client_id: clientId,
             client_secret: clientSecret,
             redirect_uri: redirectUri,
             code,
             grant_type: 'authorization_code',
+            ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
+        }).catch(error => {
+            throw this.handleAPIError(error);
         });
 
         return response.data;
     }
 
+    private async exchangeRefreshToken({clientId, clientSecret}: { clientId: string, clientSecret: string },
+                                       refreshToken: string
+    ): Promise<AuthTokens> {
+        const response = await this.httpClient.post(OAUTH_TOKEN_URL, {
+            client_id: clientId,
+            client_secret: clientSecret,
+            refresh_token: refreshToken,
+            grant_type: 'refresh_token',
+        }).catch(error => {
+            throw this.handleAPIError(error);
+        });
+
+        return response.data;
+    }
+
+    private getMockProfiles(): BufferProfile[] {
+        return this.generateMockProfiles().map(profile => ({ ...profile, ...this.mockProfileChanges.get(profile.id) }));
+    }
+
+    private setMockProfileChanges(profileId: string, changes: Partial<BufferProfile>): void {
+        this.mockProfileChanges.set(profileId, { ...this.mockProfileChanges.get(profileId), ...changes });
+    }
+
     // Mock data generators for demo purposes
     private generateMockProfiles(): BufferProfile[] {
         return [
@@ -510,44 +1485,157 @@ export class BufferClient {
         ];
     }
 
-    private generateMockPosts(profileId: string, options: PostListOptions): BufferPost[] {
-        const posts: BufferPost[] = [];
-        const count = options.count || 20;
-
-        for (let i = 0; i < count; i++) {
-            posts.push({
-                id: `post_${profileId}_${i}`,
-                profile_id: profileId,
-                status: Math.random() > 0.8 ? 'buffer' : 'sent',
-                text: `Sample post content ${i + 1} with engaging text and hashtags #buffer #socialmedia`,
-                text_formatted: `Sample post content ${i + 1} with engaging text and hashtags <strong>#buffer</strong> <strong>#socialmedia</strong>`,
-                created_at: Date.now() - (i * 86400000), // One day apart
-                due_at: Date.now() + (i * 3600000), // One hour apart
-                sent_at: Math.random() > 0.5 ? Date.now() - (i * 3600000) : undefined,
-                statistics: {
-                    reach: Math.floor(Math.random() * 10000),
-                    clicks: Math.floor(Math.random() * 500),
-                    retweets: Math.floor(Math.random() * 100),
-                    favorites: Math.floor(Math.random() * 200),
-                    mentions: Math.floor(Math.random() * 50),
-                    comments: Math.floor(Math.random() * 30),
-                    shares: Math.floor(Math.random() * 40),
-                },
-            });
+    // Seeds a fixed set of posts per profile on first use so pages stay consistent across calls
+    private getMockProfilePosts(profileId: string): BufferPost[] {
+        if (!this.mockSeededProfiles.has(profileId)) {
+            this.mockSeededProfiles.add(profileId);
+            const seededAt = Date.now();
+            const service = this.getMockProfiles().find(profile => profile.id === profileId)?.service;
+
+            for (let i = 0; i < MOCK_POSTS_PER_PROFILE; i++) {
+                const status = i % 5 === 0 ? 'buffer' : 'sent';
+                const postId = `post_${profileId}_${i}`;
+                this.mockPosts.set(postId, {
+                    ...this.generateMockPostStructure(postId, service, i),
+                    id: postId,
+                    profile_id: profileId,
+                    status,
+                    text: `Sample post content ${i + 1} with engaging text and hashtags #buffer #socialmedia`,
+                    text_formatted: `Sample post content ${i + 1} with engaging text and hashtags <strong>#buffer</strong> <strong>#socialmedia</strong>`,
+                    created_at: seededAt - (i * 86400000), // One day apart
+                    due_at: seededAt + (i * 3600000), // One hour apart
+                    sent_at: status === 'sent' ? seededAt - (i * 86400000) + 3600000 : undefined,
+                    statistics: {
+                        reach: Math.floor(Math.random() * 10000),
+                        clicks: Math.floor(Math.random() * 500),
+                        retweets: Math.floor(Math.random() * 100),
+                        favorites: Math.floor(Math.random() * 200),
+                        mentions: Math.floor(Math.random() * 50),
+                        comments: Math.floor(Math.random() * 30),
+                        shares: Math.floor(Math.random() * 40),
+                    },
+                });
+            }
         }
 
-        return posts;
+        return Array.from(this.mockPosts.values())
+            .filter(post => post.profile_id === profileId)
+            .sort((a, b) => b.created_at - a.created_at);
+    }
+
+    // Some seeded X posts are threads and some Instagram posts are carousels
+    private generateMockPostStructure(postId: string, service: SocialPlatform | undefined, index: number): Partial<BufferPost> {
+        if (service === 'x' && index % 9 === 4) {
+            return { thread: [{ text: `Part 2 of thread ${index + 1}` }, { text: `Part 3 of thread ${index + 1}` }] };
+        }
+        if (service === 'instagram' && index % 3 === 1) {
+            return {
+                carousel: [1, 2, 3].map(slide => ({
+                    id: `${postId}_slide_${slide}`,
+                    type: 'image' as const,
+                    url: `https://mock.buffer.local/media/${postId}_slide_${slide}.jpg`,
+                    caption: `Slide ${slide}`,
+                })),
+            };
+        }
+        return {};
+    }
+
+    private generateMockPostPage(profileId: string, options: PostListOptions & { page: number; count: number }): PostPage {
+        const since = this.parseMockTime(options.since);
+        const until = this.parseMockTime(options.until);
+        const matching = this.getMockProfilePosts(profileId).filter(post =>
+            (!options.status || post.status === options.status) &&
+            (since === undefined || post.created_at >= since) &&
+            (until === undefined || post.created_at <= until)
+        );
+
+        const start = (options.page - 1) * options.count;
+        return {
+            items: matching.slice(start, start + options.count),
+            page: options.page,
+            hasMore: start + options.count < matching.length,
+            total: matching.length,
+        };
+    }
+
+    // `since`/`until` accept ISO dates or Unix timestamps in seconds, like the API
+    private parseMockTime(value?: string): number | undefined {
+        if (!value) {
+            return undefined;
+        }
+        return /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+    }
+
+    // Buffered posts in the stored queue order; posts queued since the last reorder follow by due time
+    private getMockQueuePosts(profileId: string): BufferPost[] {
+        const buffered = this.getMockProfilePosts(profileId).filter(post => post.status === 'buffer');
+        const order = this.mockQueueOrder.get(profileId) || [];
+        const rank = (post: BufferPost) => {
+            const index = order.indexOf(post.id);
+            return index === -1 ? order.length : index;
+        };
+
+        return buffered.sort((a, b) => rank(a) - rank(b) || (a.due_at || 0) - (b.due_at || 0));
+    }
+
+    private applyMockUpdate(post: BufferPost, data: UpdatePostData): BufferPost {
+        return {
+            ...post,
+            text: data.text ?? post.text,
+            text_formatted: data.text ?? post.text_formatted,
+            due_at: data.scheduled_at ? Date.parse(data.scheduled_at) : post.due_at,
+            media: data.media ? this.toMockMedia(post.id, data.media) : post.media,
+        };
+    }
+
+    // Uploaded handles keep their media id; plain URLs get one derived from the post
+    private toMockMedia(postId: string, media: PostMediaItem[]): BufferPostMedia[] {
+        return media.map((item, index) => ({ id: item.id || `${postId}_media_${index}`, type: item.type, url: item.url }));
+    }
+
+    // Mirrors the API: a repeated idempotency key returns the post created by the first request
+    private createMockPost(profileId: string, data: CreatePostData, idempotencyKey: string, links: PostLink[]): BufferPost {
+        const existingId = this.mockIdempotencyKeys.get(idempotencyKey);
+        const existing = existingId !== undefined ? this.mockPosts.get(existingId) : undefined;
+        if (existing) {
+            return existing;
+        }
+
+        const post = this.generateMockPost(`mock_${Date.now()}_${++this.mockPostSequence}`, data, profileId);
+        if (links.length > 0) {
+            post.links = links;
+        }
+        this.mockPosts.set(post.id, post);
+        this.mockIdempotencyKeys.set(idempotencyKey, post.id);
+        return post;
+    }
+
+    // Stands in for the media of a post the mock has not stored, e.g. one named by mock analytics; Instagram posts always have some
+    private generateMockPlaceholderMedia(postId: string): BufferPostMedia[] {
+        return [{ id: `${postId}_media_0`, type: 'image', url: `https://mock.buffer.local/media/${postId}.jpg` }];
     }
 
-    private generateMockPost(postId: string, data?: CreatePostData): BufferPost {
+    private generateMockPost(postId: string, data?: CreatePostData, profileId = 'profile_mock_001'): BufferPost {
         return {
             id: postId,
-            profile_id: 'profile_mock_001',
+            profile_id: profileId,
             status: 'buffer',
             text: data?.text || `Mock post content for ${postId}`,
             text_formatted: data?.text || `Mock post content for ${postId}`,
             created_at: Date.now(),
             due_at: data?.scheduled_at ? new Date(data.scheduled_at).getTime() : Date.now() + 3600000,
+            media: data ? data.media && this.toMockMedia(postId, data.media) : this.generateMockPlaceholderMedia(postId),
+            thread: data?.thread?.map((segment, index) => ({
+                text: segment.text,
+                media: segment.media ? this.toMockMedia(`${postId}_thread_${index}`, segment.media) : undefined,
+            })),
+            carousel: data?.carousel?.map((slide, index) => ({
+                id: slide.id || `${postId}_slide_${index}`,
+                type: slide.type,
+                url: slide.url,
+                caption: slide.caption,
+            })),
             statistics: {
                 reach: 0,
                 clicks: 0,
@@ -0,0 +1,190 @@
+import { normalizeHeaders } from './middleware';
+import { parseRateLimitHeaders } from './rate-limiter';
+import {
+    AuthenticationError,
+    BufferAPIError,
+    BufferErrorCode,
+    BufferErrorOptions,
+    NetworkError,
+    NotFoundError,
+    RateLimitError,
+    ServerError,
+    ValidationError,
+    ValidationFieldError,
+} from './types';
+
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+// fetch and DOM APIs reject with AbortError, axios with CanceledError (code ERR_CANCELED)
+const ABORT_ERROR_NAMES = ['AbortError', 'CanceledError'];
+const AUTHENTICATION_CODES = ['TOKEN_EXCHANGE_FAILED', 'TOKEN_REFRESH_FAILED', 'OAUTH_STATE_MISMATCH', 'OAUTH_ACCESS_DENIED'];
+const RATE_LIMIT_CODES = ['RATE_LIMIT_EXCEEDED', 'RATE_LIMIT_QUEUE_FULL', 'RATE_LIMIT_DROPPED'];
+// Keyed by every named BufferErrorCode so the compiler flags codes missing here
+const NAMED_ERROR_CODES: Record<Exclude<BufferErrorCode, `HTTP_${number}`>, true> = {
+    TOKEN_EXCHANGE_FAILED: true,
+    TOKEN_REFRESH_FAILED: true,
+    OAUTH_STATE_MISMATCH: true,
+    OAUTH_ACCESS_DENIED: true,
+    OAUTH_CALLBACK_ERROR: true,
+    OAUTH_CODE_MISSING: true,
+    OAUTH_CONFIG_INVALID: true,
+    PROFILE_NOT_FOUND: true,
+    PROFILE_UPDATE_FAILED: true,
+    POST_NOT_FOUND: true,
+    POST_CREATE_FAILED: true,
+    POST_UPDATE_FAILED: true,
+    INVALID_POST_STATUS: true,
+    ANALYTICS_NOT_FOUND: true,
+    POSTS_NOT_FOUND: true,
+    SUMMARY_NOT_FOUND: true,
+    INSIGHTS_NOT_FOUND: true,
+    VALIDATION_ERROR: true,
+    POST_VALIDATION_FAILED: true,
+    MEDIA_UPLOAD_FAILED: true,
+    LINK_SHORTEN_FAILED: true,
+    MEDIA_NOT_FOUND: true,
+    RECURRING_SERIES_NOT_FOUND: true,
+    RATE_LIMIT_EXCEEDED: true,
+    RATE_LIMIT_QUEUE_FULL: true,
+    RATE_LIMIT_DROPPED: true,
+    RATE_LIMIT_STORE_LOCKED: true,
+    NETWORK_ERROR: true,
+    TIMEOUT: true,
+    REQUEST_ABORTED: true,
+    REQUEST_ERROR: true,
+    CIRCUIT_OPEN: true,
+    BATCH_ITEM_SKIPPED: true,
+};
+
+const isBufferErrorCode = (code: unknown): code is BufferErrorCode =>
+    typeof code === 'string' && (Object.prototype.hasOwnProperty.call(NAMED_ERROR_CODES, code) || /^HTTP_\d+$/.test(code));
+
+type BufferErrorClass = new (
+    code: BufferErrorCode,
+    message: string,
+    statusCode?: number,
+    details?: any,
+    options?: BufferErrorOptions
+) => BufferAPIError;
+
+const errorClassFor = (code: BufferErrorCode, statusCode?: number): BufferErrorClass => {
+    if (code === 'NETWORK_ERROR' || code === 'TIMEOUT') {
+        return NetworkError;
+    }
+    if (AUTHENTICATION_CODES.includes(code) || statusCode === 401 || statusCode === 403) {
+        return AuthenticationError;
+    }
+    if (RATE_LIMIT_CODES.includes(code) || statusCode === 429) {
+        return RateLimitError;
+    }
+    if (code.endsWith('_NOT_FOUND') || statusCode === 404) {
+        return NotFoundError;
+    }
+    if (code === 'VALIDATION_ERROR' || code === 'INVALID_POST_STATUS' || statusCode === 400 || statusCode === 422) {
+        return ValidationError;
+    }
+    if (code !== 'CIRCUIT_OPEN' && statusCode !== undefined && statusCode >= 500) {
+        return ServerError;
+    }
+    return BufferAPIError;
+};
+
+// Creates the BufferAPIError subclass that matches the code and HTTP status
+export const createBufferError = (
+    code: BufferErrorCode,
+    message: string,
+    statusCode?: number,
+    details?: any,
+    options: BufferErrorOptions = {}
+): BufferAPIError => {
+    const ErrorClass = errorClassFor(code, statusCode);
+    return new ErrorClass(code, message, statusCode, details, options);
+};
+
+// Type guard for SDK errors, optionally narrowed to one code
+export const isBufferError = <C extends BufferErrorCode>(error: unknown, code?: C): error is BufferAPIError & { code: C } => {
+    return error instanceof BufferAPIError && (code === undefined || error.code === code);
+};
+
+// Accepts `errors` as a list of { field, message } or as a map of field -> message(s)
+const parseFieldErrors = (errors: any): ValidationFieldError[] => {
+    if (Array.isArray(errors)) {
+        return errors
+            .filter(error => error && typeof error === 'object')
+            .map(error => ({ field: String(error.field ?? ''), message: String(error.message ?? ''), code: error.code }));
+    }
+
+    if (errors && typeof errors === 'object') {
+        return Object.entries(errors).flatMap(([field, messages]) =>
+            (Array.isArray(messages) ? messages : [messages]).map(message => ({ field, message: String(message) }))
+        );
+    }
+
+    return [];
+};
+
+// Maps transport errors (axios-shaped: `response` for HTTP errors, `request` when nothing came back) to BufferAPIError
+export const toBufferAPIError = (error: any): BufferAPIError => {
+    if (error instanceof BufferAPIError) {
+        return error;
+    }
+
+    if (ABORT_ERROR_NAMES.includes(error?.name) || error?.code === 'ERR_CANCELED') {
+        return new BufferAPIError(
+            'REQUEST_ABORTED',
+            'Request was aborted',
+            undefined,
+            { originalError: error.message },
+            { cause: error }
+        );
+    }
+
+    if (error?.response) {
+        const { status, data, headers } = error.response;
+        const errorData = data as any;
+        const normalizedHeaders = normalizeHeaders(headers);
+
+        // Codes the SDK does not know fall back to HTTP_<status>; the raw code stays in details.code
+        const apiError = createBufferError(
+            isBufferErrorCode(errorData?.code) ? errorData.code : `HTTP_${status}`,
+            errorData?.message || error.message,
+            status,
+            errorData,
+            { cause: error, headers: normalizedHeaders }
+        );
+        if (apiError instanceof RateLimitError && apiError.retryAfterMs === undefined) {
+            apiError.retryAfterMs = parseRateLimitHeaders(normalizedHeaders).retryAfterMs;
+        }
+        if (apiError instanceof ValidationError && apiError.fieldErrors.length === 0) {
+            apiError.fieldErrors = parseFieldErrors(errorData?.errors);
+        }
+        return apiError;
+    }
+
+    if (TIMEOUT_CODES.includes(error?.code)) {
+        return new NetworkError(
+            'TIMEOUT',
+            'Request to Buffer API timed out',
+            undefined,
+            { originalError: error.message },
+            { cause: error }
+        );
+    }
+
+    if (error?.request) {
+        return new NetworkError(
+            'NETWORK_ERROR',
+            'No response received from Buffer API',
+            undefined,
+            { originalError: error.message },
+            { cause: error }
+        );
+    }
+
+    return new BufferAPIError(
+        'REQUEST_ERROR',
+        error?.message,
+        undefined,
+        { originalError: error?.message },
+        { cause: error }
+    );
+};
@@ -0,0 +1,139 @@
+import { throwIfAborted } from './abort';
+import { toBufferAPIError } from './errors';
+import { FetchHTTPClientOptions, HTTPClient, HTTPRequestConfig, HTTPResponse } from './types';
+
+// HTTPClient built on the standard fetch API, for browsers, Deno and edge runtimes where axios is not an option
+export class FetchHTTPClient implements HTTPClient {
+    private readonly options: FetchHTTPClientOptions;
+
+    constructor(options: FetchHTTPClientOptions = {}) {
+        this.options = options;
+    }
+
+    public get<T = any>(url: string, config?: HTTPRequestConfig): Promise<HTTPResponse<T>> {
+        return this.request<T>('GET', url, undefined, config);
+    }
+
+    public post<T = any>(url: string, data?: any, config?: HTTPRequestConfig): Promise<HTTPResponse<T>> {
+        return this.request<T>('POST', url, data, config);
+    }
+
+    public put<T = any>(url: string, data?: any, config?: HTTPRequestConfig): Promise<HTTPResponse<T>> {
+        return this.request<T>('PUT', url, data, config);
+    }
+
+    public delete<T = any>(url: string, config?: HTTPRequestConfig): Promise<HTTPResponse<T>> {
+        return this.request<T>('DELETE', url, undefined, config);
+    }
+
+    private async request<T>(method: string, url: string, data: any, config: HTTPRequestConfig = {}): Promise<HTTPResponse<T>> {
+        const fetchImpl = this.options.fetch || (typeof fetch === 'function' ? fetch : undefined);
+        if (!fetchImpl) {
+            throw toBufferAPIError(new Error('No fetch implementation available. Pass one via the `fetch` option.'));
+        }
+
+        const requestUrl = this.buildUrl(url, config.params);
+        const headers: Record<string, string> = { Accept: 'application/json', ...this.options.headers, ...config.headers };
+        let body: any;
+        if (data !== undefined) {
+            const isRawBody = typeof data === 'string' || data instanceof ArrayBuffer || ArrayBuffer.isView(data) ||
+                (typeof FormData !== 'undefined' && data instanceof FormData) ||
+                (typeof Blob !== 'undefined' && data instanceof Blob);
+            body = isRawBody ? data : JSON.stringify(data);
+            if (!isRawBody && !Object.keys(headers).some(key => key.toLowerCase() === 'content-type')) {
+                headers['Content-Type'] = 'application/json';
+            }
+        }
+
+        // An already-aborted signal never fires 'abort', so reject before anything goes out
+        throwIfAborted(config.signal);
+
+        // One controller drives both the timeout and the caller's signal
+        const controller = new AbortController();
+        const timeout = config.timeout ?? this.options.timeout;
+        let timedOut = false;
+        const timer = timeout ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeout) : undefined;
+        const abortFromCaller = () => controller.abort();
+        config.signal?.addEventListener('abort', abortFromCaller);
+
+        try {
+            const response = await fetchImpl(requestUrl, { method, headers, body, signal: controller.signal });
+            const result: HTTPResponse<T> = {
+                data: await this.parseBody(response),
+                status: response.status,
+                statusText: response.statusText,
+                headers: this.collectHeaders(response.headers),
+            };
+
+            if (!response.ok) {
+                throw toBufferAPIError({ message: `Request failed with status code ${response.status}`, response: result });
+            }
+
+            return result;
+        } catch (error: any) {
+            if (timedOut) {
+                throw toBufferAPIError({ code: 'ETIMEDOUT', message: `Timeout of ${timeout}ms exceeded`, request: { url: requestUrl } });
+            }
+            // fetch rejects with a TypeError when no response was received at all
+            throw toBufferAPIError(error instanceof TypeError ? { message: error.message, request: { url: requestUrl } } : error);
+        } finally {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            config.signal?.removeEventListener('abort', abortFromCaller);
+        }
+    }
+
+    private buildUrl(url: string, params?: HTTPRequestConfig['params']): string {
+        const isAbsolute = /^[a-z][a-z\d+\-.]*:\/\//i.test(url);
+        let fullUrl = url;
+        if (!isAbsolute && this.options.baseURL) {
+            fullUrl = `${this.options.baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+        }
+
+        const search = new URLSearchParams();
+        Object.entries(params || {}).forEach(([key, value]) => {
+            if (value !== undefined) {
+                search.append(key, String(value));
+            }
+        });
+
+        const query = search.toString();
+        if (!query) {
+            return fullUrl;
+        }
+        return `${fullUrl}${fullUrl.includes('?') ? '&' : '?'}${query}`;
+    }
+
+    private async parseBody(response: Response): Promise<any> {
+        if (response.status === 204) {
+            return undefined;
+        }
+
+        const text = await response.text();
+        if (!text) {
+            return undefined;
+        }
+
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType.includes('json')) {
+            try {
+                return JSON.parse(text);
+            } catch {
+                return text;
+            }
+        }
+        return text;
+    }
+
+    private collectHeaders(headers: Headers): Record<string, string> {
+        const collected: Record<string, string> = {};
+        headers.forEach((value, key) => {
+            collected[key.toLowerCase()] = value;
+        });
+        return collected;
+    }
+}
@@ -12,6 +12,24 @@
 
 // Main client export
 export { BufferClient, createBufferClient } from './client';
+export { MemoryTokenStore, FileTokenStore } from './token-store';
+export { FetchHTTPClient } from './fetch-client';
+export { TokenBucketRateLimiter, parseRateLimitHeaders } from './rate-limiter';
+export { MemoryRateLimitStore, FileRateLimitStore } from './rate-limit-store';
+export { DEFAULT_RETRY_POLICY } from './retry';
+export { CircuitBreaker, DEFAULT_CIRCUIT_BREAKER_OPTIONS } from './circuit-breaker';
+export { POST_ACTION_STATUSES } from './post-lifecycle';
+export { MEDIA_SIZE_LIMITS } from './media';
+export { validatePost, countPostLength, PLATFORM_RULES } from './post-validation';
+export { applyUtm, findUrls, rewriteLinks } from './links';
+export { parseRRule, expandRecurrence, selectEvergreenPosts } from './recurrence';
+export {
+    createAuthorizationRequest,
+    parseCallbackUrl,
+    createPkcePair,
+    generateState,
+    verifyState,
+} from './auth';
 
 // Type exports
 export type {
@@ -29,18 +47,87 @@ export type {
     AnalyticsOptions,
     PostListOptions,
     CreatePostData,
+    UpdatePostData,
+    PostAction,
+    PostPage,
+    QueuedPost,
+    PostingSchedule,
+    ProfileUpdateData,
+    ProfileQueue,
+    APIPagination,
+    MediaType,
+    MediaUploadInput,
+    MediaUploadOptions,
+    MediaUploadProgress,
+    MediaInfo,
+    MediaHandle,
+    PlatformRules,
+    CarouselRules,
+    PostMediaItem,
+    ThreadSegment,
+    CarouselSlide,
+    BufferPostMedia,
+    BufferThreadSegment,
+    BufferCarouselSlide,
+    UtmTemplate,
+    LinkContext,
+    LinkShortener,
+    LinkProcessingOptions,
+    PostLink,
+    RecurrenceFrequency,
+    RecurrenceRule,
+    RecurringPostDefinition,
+    RecurringPost,
+    RecurrenceOccurrence,
+    EvergreenOptions,
+    PostValidationResult,
 
     // API types
     APIResponse,
     AuthTokens,
+    TokenStore,
+    TokenStoreKey,
+    AuthorizationUrlOptions,
+    AuthorizationRequest,
+    OAuthCallbackResult,
+    PkcePair,
     BufferClientConfig,
     HTTPClient,
+    HTTPRequestConfig,
+    HTTPResponse,
+    FetchHTTPClientOptions,
+    HTTPMethod,
+    BufferRequest,
+    BufferResponse,
+    BufferMiddleware,
+    BufferMiddlewareNext,
+    RateLimitStrategy,
+    RateLimiterOptions,
+    RateLimiterStatus,
+    ServerRateLimitInfo,
+    RateLimitStore,
+    RateLimitStoreResult,
+    FileRateLimitStoreOptions,
+    RetryPolicy,
+    RetryJitter,
+    RetryAttemptInfo,
+    RequestOptions,
+    BufferErrorCode,
+    BufferErrorOptions,
+    ValidationFieldError,
+    EndpointGroup,
+    CircuitState,
+    CircuitStateChangeEvent,
+    CircuitBreakerOptions,
 
     // Utility types
     PlatformMetrics,
     ScheduleSlot,
     EngagementTrend,
     BatchOperationResult,
+    BatchOperationOptions,
+    BulkCreatePostItem,
+    BulkRescheduleItem,
     BufferClientStats,
     WebhookEvent,
 
@@ -58,7 +145,17 @@ export type {
 } from './types';
 
 // Error class export
-export { BufferAPIError, PluginExecutionError } from './types';
+export {
+    BufferAPIError,
+    AuthenticationError,
+    RateLimitError,
+    NotFoundError,
+    ValidationError,
+    NetworkError,
+    ServerError,
+    PluginExecutionError,
+} from './types';
+export { isBufferError } from './errors';
 
 // Version info
 export const VERSION = '1.0.0';
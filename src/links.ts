@@ -0,0 +1,69 @@
+import { BufferAPIError, LinkContext, LinkProcessingOptions, PostLink, UtmTemplate } from './types';
+
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/g;
+// Sentence punctuation directly after a link is not part of it
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+const trimUrl = (match: string): string => match.replace(TRAILING_PUNCTUATION, '');
+
+export const findUrls = (text: string): string[] => {
+    return (text.match(URL_PATTERN) || []).map(trimUrl).filter(Boolean);
+};
+
+// Fills `{platform}`, `{profileId}` and `{campaign}` placeholders; unknown placeholders become empty
+const fillTemplate = (template: string, context: LinkContext): string => {
+    return template.replace(/\{(\w+)\}/g, (_, key: string) => context[key as keyof LinkContext] ?? '');
+};
+
+// Adds utm_* parameters from the template; parameters already on the URL are kept as they are
+export const applyUtm = (url: string, template: UtmTemplate, context: LinkContext): string => {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return url;
+    }
+
+    let changed = false;
+    Object.entries(template).forEach(([key, value]) => {
+        const param = `utm_${key}`;
+        const filled = value === undefined ? '' : fillTemplate(value, context);
+        if (filled && !parsed.searchParams.has(param)) {
+            parsed.searchParams.set(param, filled);
+            changed = true;
+        }
+    });
+    return changed ? parsed.toString() : url;
+};
+
+// Tags and shortens every link in `texts`. A link used in several texts is processed once and rewritten everywhere.
+export const rewriteLinks = async (
+    texts: string[],
+    options: LinkProcessingOptions,
+    context: LinkContext
+): Promise<{ texts: string[]; links: PostLink[] }> => {
+    const processed = new Map<string, PostLink>();
+
+    for (const original of texts.flatMap(findUrls)) {
+        if (processed.has(original)) {
+            continue;
+        }
+
+        const tagged = options.utm ? applyUtm(original, options.utm, context) : original;
+        let short: string | undefined;
+        if (options.shortener) {
+            try {
+                short = await options.shortener.shorten(tagged, context);
+            } catch (error) {
+                throw new BufferAPIError('LINK_SHORTEN_FAILED', `Failed to shorten ${tagged}`, undefined, { url: tagged }, { cause: error });
+            }
+        }
+        processed.set(original, { original, tagged, short });
+    }
+
+    const rewritten = texts.map(text => text.replace(URL_PATTERN, match => {
+        const link = processed.get(trimUrl(match));
+        return link ? (link.short || link.tagged) + match.slice(link.original.length) : match;
+    }));
+    return { texts: rewritten, links: Array.from(processed.values()) };
+};
@@ -0,0 +1,418 @@
+import { MediaInfo, MediaSource, MediaType, MediaUploadInput, ValidationError } from './types';
+
+const MB = 1024 * 1024;
+
+// Largest file accepted per media type
+export const MEDIA_SIZE_LIMITS: Record<MediaType, number> = {
+    image: 10 * MB,
+    gif: 15 * MB,
+    video: 1024 * MB,
+};
+
+// Leading bytes read to detect the type and image dimensions
+const HEADER_BYTES = 256 * 1024;
+// Largest movie box (moov) read for video dimensions and duration; also how much of a stream is buffered
+const MAX_MOOV_BYTES = 16 * MB;
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    mp4: 'video/mp4',
+    m4v: 'video/mp4',
+    mov: 'video/quicktime',
+};
+
+const MIME_MEDIA_TYPES: Record<string, MediaType> = {
+    'image/jpeg': 'image',
+    'image/png': 'image',
+    'image/webp': 'image',
+    'image/gif': 'gif',
+    'video/mp4': 'video',
+    'video/quicktime': 'video',
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string => {
+    return String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+};
+
+const view = (bytes: Uint8Array): DataView => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+// Identifies the format from its leading bytes, so a misnamed file is still detected correctly
+const sniffMimeType = (bytes: Uint8Array): string | undefined => {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (ascii(bytes, 1, 3) === 'PNG') {
+        return 'image/png';
+    }
+    if (ascii(bytes, 0, 4) === 'GIF8') {
+        return 'image/gif';
+    }
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+        return 'image/webp';
+    }
+    if (ascii(bytes, 4, 4) === 'ftyp') {
+        return ascii(bytes, 8, 4) === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+    }
+    return undefined;
+};
+
+const jpegDimensions = (bytes: Uint8Array): [number, number] | undefined => {
+    const data = view(bytes);
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) {
+            return undefined;
+        }
+        const marker = bytes[offset + 1];
+        // SOF0-SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+            return [data.getUint16(offset + 7), data.getUint16(offset + 5)];
+        }
+        offset += 2 + data.getUint16(offset + 2);
+    }
+    return undefined;
+};
+
+const webpDimensions = (bytes: Uint8Array): [number, number] | undefined => {
+    const data = view(bytes);
+    const chunk = ascii(bytes, 12, 4);
+    if (chunk === 'VP8X') {
+        const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+        const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+        return [width, height];
+    }
+    if (chunk === 'VP8L') {
+        const bits = data.getUint32(21, true);
+        return [(bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1];
+    }
+    if (chunk === 'VP8 ') {
+        return [data.getUint16(26, true) & 0x3fff, data.getUint16(28, true) & 0x3fff];
+    }
+    return undefined;
+};
+
+interface Mp4Box {
+    type: string;
+    payload: number;
+    end: number;
+}
+
+// ISO-BMFF box header: 32-bit size and type, then a 64-bit size when the size is 1. Size 0 (to the end) is undefined
+const readBoxHeader = (bytes: Uint8Array, offset: number): { type: string; headerSize: number; size?: number } | undefined => {
+    if (offset + 8 > bytes.length) {
+        return undefined;
+    }
+    const data = view(bytes);
+    const type = ascii(bytes, offset + 4, 4);
+    const size = data.getUint32(offset);
+    if (size === 0) {
+        return { type, headerSize: 8 };
+    }
+    if (size !== 1) {
+        return size >= 8 ? { type, headerSize: 8, size } : undefined;
+    }
+    if (offset + 16 > bytes.length) {
+        return undefined;
+    }
+    const largeSize = data.getUint32(offset + 8) * 2 ** 32 + data.getUint32(offset + 12);
+    return largeSize >= 16 ? { type, headerSize: 16, size: largeSize } : undefined;
+};
+
+// Boxes directly inside [start, end), located by their sizes so payload bytes are never mistaken for box types
+const childBoxes = (bytes: Uint8Array, start: number, end: number): Mp4Box[] => {
+    const boxes: Mp4Box[] = [];
+    let offset = start;
+    while (offset < end) {
+        const header = readBoxHeader(bytes, offset);
+        const boxEnd = header?.size === undefined ? end : offset + header.size;
+        if (!header || boxEnd > end) {
+            break;
+        }
+        boxes.push({ type: header.type, payload: offset + header.headerSize, end: boxEnd });
+        offset = boxEnd;
+    }
+    return boxes;
+};
+
+const findMoov = (bytes: Uint8Array): Uint8Array | undefined => {
+    const moov = childBoxes(bytes, 0, bytes.length).find(box => box.type === 'moov');
+    return moov && bytes.subarray(moov.payload, moov.end);
+};
+
+// Walks the top-level boxes with ranged reads, skipping the media data (mdat), and loads the movie box
+const readMoov = async (source: MediaSource): Promise<Uint8Array | undefined> => {
+    let offset = 0;
+    while (source.size === undefined || offset < source.size) {
+        const header = readBoxHeader(await source.read(offset, 16), 0);
+        if (!header) {
+            return undefined;
+        }
+        if (header.type === 'moov') {
+            const length = header.size === undefined ? MAX_MOOV_BYTES : header.size - header.headerSize;
+            return length <= MAX_MOOV_BYTES ? source.read(offset + header.headerSize, length) : undefined;
+        }
+        if (header.size === undefined) {
+            return undefined;
+        }
+        offset += header.size;
+    }
+    return undefined;
+};
+
+// Reads the first video track header (moov > trak > tkhd) with a non-zero size; audio tracks report 0x0
+const mp4Dimensions = (moov: Uint8Array): [number, number] | undefined => {
+    const data = view(moov);
+    for (const trak of childBoxes(moov, 0, moov.length).filter(box => box.type === 'trak')) {
+        const tkhd = childBoxes(moov, trak.payload, trak.end).find(box => box.type === 'tkhd');
+        if (!tkhd) {
+            continue;
+        }
+        const sizeOffset = tkhd.payload + (moov[tkhd.payload] === 1 ? 88 : 76);
+        if (sizeOffset + 8 > tkhd.end) {
+            continue;
+        }
+        // 16.16 fixed point
+        const width = data.getUint32(sizeOffset) >>> 16;
+        const height = data.getUint32(sizeOffset + 4) >>> 16;
+        if (width > 0 && height > 0) {
+            return [width, height];
+        }
+    }
+    return undefined;
+};
+
+// Movie header (moov > mvhd): duration in timescale units
+const mp4Duration = (moov: Uint8Array): number | undefined => {
+    const mvhd = childBoxes(moov, 0, moov.length).find(box => box.type === 'mvhd');
+    if (!mvhd) {
+        return undefined;
+    }
+    const data = view(moov.subarray(mvhd.payload, mvhd.end));
+    try {
+        const version1 = data.getUint8(0) === 1;
+        const timescale = data.getUint32(version1 ? 20 : 12);
+        const duration = version1 ? data.getUint32(24) * 2 ** 32 + data.getUint32(28) : data.getUint32(16);
+        return timescale > 0 ? duration / timescale : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+const readDimensions = (header: Uint8Array, mimeType: string, moov?: Uint8Array): [number, number] | undefined => {
+    try {
+        switch (mimeType) {
+            case 'image/png':
+                return [view(header).getUint32(16), view(header).getUint32(20)];
+            case 'image/gif':
+                return [view(header).getUint16(6, true), view(header).getUint16(8, true)];
+            case 'image/jpeg':
+                return jpegDimensions(header);
+            case 'image/webp':
+                return webpDimensions(header);
+            default:
+                return moov && mp4Dimensions(moov);
+        }
+    } catch {
+        // Truncated or corrupt headers: the API measures the file itself
+        return undefined;
+    }
+};
+
+const invalidMedia = (message: string): ValidationError => {
+    return new ValidationError('VALIDATION_ERROR', message, 400, { fieldErrors: [{ field: 'media', message }] });
+};
+
+// Content first, then file extension, then the caller's hint
+const detectMediaType = (header: Uint8Array, filename?: string, mimeTypeHint?: string): { type: MediaType; mimeType: string } => {
+    const extension = filename?.split('.').pop()?.toLowerCase();
+    const mimeType = sniffMimeType(header) || (extension && EXTENSION_MIME_TYPES[extension]) || mimeTypeHint;
+    const type = mimeType ? MIME_MEDIA_TYPES[mimeType] : undefined;
+    if (!mimeType || !type) {
+        throw invalidMedia(`Unsupported media type${mimeType ? ` ${mimeType}` : ''}; use JPEG, PNG, WebP, GIF, MP4 or MOV`);
+    }
+    return { type, mimeType };
+};
+
+// Enforces MEDIA_SIZE_LIMITS; uploads also call it as stream chunks arrive
+export const assertMediaSize = (type: MediaType, size: number): void => {
+    if (size === 0) {
+        throw invalidMedia('Media file is empty');
+    }
+    if (size > MEDIA_SIZE_LIMITS[type]) {
+        throw invalidMedia(`${type} files must be at most ${MEDIA_SIZE_LIMITS[type] / MB}MB; got ${(size / MB).toFixed(1)}MB`);
+    }
+};
+
+const describeMedia = (header: Uint8Array, type: MediaType, mimeType: string, size?: number, moov?: Uint8Array): MediaInfo => {
+    const dimensions = readDimensions(header, mimeType, moov);
+    return {
+        type,
+        mimeType,
+        size,
+        width: dimensions?.[0],
+        height: dimensions?.[1],
+        duration: moov && mp4Duration(moov),
+    };
+};
+
+// Detects the MIME type, size and dimensions of in-memory media and enforces the size limit for the media type
+export const detectMediaInfo = (bytes: Uint8Array, filename?: string, mimeTypeHint?: string): MediaInfo => {
+    const { type, mimeType } = detectMediaType(bytes, filename, mimeTypeHint);
+    assertMediaSize(type, bytes.length);
+    return describeMedia(bytes, type, mimeType, bytes.length, type === 'video' ? findMoov(bytes) : undefined);
+};
+
+// Like detectMediaInfo, but reads only the header and, for videos, the movie box of an opened source
+export const inspectMedia = async (source: MediaSource, filename?: string, mimeTypeHint?: string): Promise<MediaInfo> => {
+    const header = await source.read(0, HEADER_BYTES);
+    const { type, mimeType } = detectMediaType(header, filename, mimeTypeHint);
+    // A stream's length is checked as it is uploaded
+    assertMediaSize(type, source.size ?? header.length);
+    return describeMedia(header, type, mimeType, source.size, type === 'video' ? await readMoov(source) : undefined);
+};
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+    if (chunks.length === 1) {
+        return chunks[0];
+    }
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return result;
+};
+
+const bufferSource = (bytes: Uint8Array): MediaSource => ({
+    size: bytes.length,
+    read: async (position, length) => bytes.subarray(position, position + length),
+    chunks: async function* (chunkSize) {
+        for (let position = 0; position < bytes.length; position += chunkSize) {
+            yield bytes.subarray(position, position + chunkSize);
+        }
+    },
+    close: async () => undefined,
+});
+
+const fileSource = async (filePath: string): Promise<MediaSource> => {
+    const fs = await import('fs');
+    const path = await import('path');
+    const unreadable = (error: Error) => invalidMedia(`Cannot read media file ${filePath}: ${error.message}`);
+    const handle = await fs.promises.open(filePath, 'r').catch(error => {
+        throw unreadable(error);
+    });
+    const stats = await handle.stat().catch(async error => {
+        await handle.close();
+        throw unreadable(error);
+    });
+
+    const read = async (position: number, length: number): Promise<Uint8Array> => {
+        const buffer = new Uint8Array(Math.max(0, Math.min(length, stats.size - position)));
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+        return buffer.subarray(0, bytesRead);
+    };
+
+    return {
+        filename: path.basename(filePath),
+        size: stats.size,
+        read,
+        chunks: async function* (chunkSize) {
+            for (let position = 0; position < stats.size; position += chunkSize) {
+                yield await read(position, chunkSize);
+            }
+        },
+        close: () => handle.close(),
+    };
+};
+
+// Buffers only the start of the stream for detection; chunks() replays it and then passes the rest through
+const streamSource = (stream: AsyncIterable<Uint8Array | string>): MediaSource => {
+    const iterator = stream[Symbol.asyncIterator]();
+    let buffered: Uint8Array = new Uint8Array(0);
+    let done = false;
+
+    const pull = async (): Promise<Uint8Array | undefined> => {
+        if (done) {
+            return undefined;
+        }
+        const next = await iterator.next();
+        if (next.done) {
+            done = true;
+            return undefined;
+        }
+        return typeof next.value === 'string' ? new TextEncoder().encode(next.value) : next.value;
+    };
+
+    const source: MediaSource = {
+        read: async (position, length) => {
+            const end = Math.min(position + length, MAX_MOOV_BYTES);
+            if (buffered.length < end) {
+                const pieces = [buffered];
+                let total = buffered.length;
+                while (total < end) {
+                    const piece = await pull();
+                    if (!piece) {
+                        break;
+                    }
+                    pieces.push(piece);
+                    total += piece.length;
+                }
+                buffered = concat(pieces);
+            }
+            return buffered.subarray(position, Math.max(position, end));
+        },
+        chunks: async function* (chunkSize) {
+            let pending = [buffered];
+            let pendingBytes = buffered.length;
+            let sent = 0;
+            buffered = new Uint8Array(0);
+            for (;;) {
+                // A full chunk is held back until more data follows, so the size is known when the last chunk goes out
+                while (pendingBytes > chunkSize) {
+                    const joined = concat(pending);
+                    pending = [joined.subarray(chunkSize)];
+                    pendingBytes -= chunkSize;
+                    sent += chunkSize;
+                    yield joined.subarray(0, chunkSize);
+                }
+                const piece = await pull();
+                if (!piece) {
+                    break;
+                }
+                pending.push(piece);
+                pendingBytes += piece.length;
+            }
+            source.size = sent + pendingBytes;
+            if (pendingBytes > 0) {
+                yield concat(pending);
+            }
+        },
+        close: async () => {
+            await iterator.return?.();
+        },
+    };
+    return source;
+};
+
+// Opens a file path (Node only), Buffer/Uint8Array, ArrayBuffer or async-iterable stream without reading it all into memory
+export const openMediaInput = async (input: MediaUploadInput): Promise<MediaSource> => {
+    if (typeof input === 'string') {
+        return fileSource(input);
+    }
+    if (input instanceof Uint8Array) {
+        return bufferSource(input);
+    }
+    if (input instanceof ArrayBuffer) {
+        return bufferSource(new Uint8Array(input));
+    }
+    if (input && typeof (input as AsyncIterable<Uint8Array>)[Symbol.asyncIterator] === 'function') {
+        return streamSource(input);
+    }
+
+    throw invalidMedia('Media must be a file path, Buffer, ArrayBuffer or readable stream');
+};
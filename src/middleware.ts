@@ -0,0 +1,26 @@
+import { BufferMiddleware, BufferMiddlewareNext, BufferRequest, BufferResponse } from './types';
+
+// Builds an onion-style chain: the first middleware is the outermost and `terminal` sends the request
+export const composeMiddleware = (middlewares: BufferMiddleware[], terminal: BufferMiddlewareNext): BufferMiddlewareNext => {
+    const dispatch = (index: number, request: BufferRequest): Promise<BufferResponse> => {
+        if (index >= middlewares.length) {
+            return terminal(request);
+        }
+
+        return middlewares[index](request, nextRequest => dispatch(index + 1, nextRequest));
+    };
+
+    return request => dispatch(0, request);
+};
+
+// Transport headers may be a plain object or an AxiosHeaders instance; middlewares always see lower-cased keys
+export const normalizeHeaders = (headers: any): Record<string, string> => {
+    const source = typeof headers?.toJSON === 'function' ? headers.toJSON() : headers || {};
+    const normalized: Record<string, string> = {};
+    Object.keys(source).forEach(key => {
+        if (source[key] !== undefined && source[key] !== null) {
+            normalized[key.toLowerCase()] = String(source[key]);
+        }
+    });
+    return normalized;
+};
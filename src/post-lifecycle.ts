@@ -0,0 +1,41 @@
+import { BufferPost, PostAction, ValidationError } from './types';
+
+// Statuses a post must be in for each action; sent posts are already published and can no longer change
+export const POST_ACTION_STATUSES: Record<PostAction, BufferPost['status'][]> = {
+    update: ['buffer', 'draft', 'failed'],
+    delete: ['buffer', 'draft', 'failed'],
+    shareNow: ['buffer', 'draft', 'failed'],
+    moveToDrafts: ['buffer', 'failed'],
+    reschedule: ['buffer', 'draft', 'failed'],
+    moveToTop: ['buffer'],
+};
+
+export const assertPostAction = (post: BufferPost, action: PostAction): void => {
+    const allowed = POST_ACTION_STATUSES[action];
+    if (!allowed.includes(post.status)) {
+        throw new ValidationError(
+            'INVALID_POST_STATUS',
+            `Cannot ${action} post ${post.id} while it is ${post.status}; allowed: ${allowed.join(', ')}`,
+            409,
+            { postId: post.id, status: post.status, action, allowed }
+        );
+    }
+};
+
+// Accepts a Date or an ISO string and requires a time in the future
+export const toScheduledAt = (value: Date | string, now = Date.now()): string => {
+    const time = value instanceof Date ? value.getTime() : Date.parse(value);
+    let message: string | undefined;
+    if (isNaN(time)) {
+        message = 'scheduled_at must be a valid date';
+    } else if (time <= now) {
+        message = 'scheduled_at must be in the future';
+    }
+
+    if (message) {
+        throw new ValidationError('VALIDATION_ERROR', message, 400, {
+            fieldErrors: [{ field: 'scheduled_at', message }],
+        });
+    }
+    return new Date(time).toISOString();
+};
@@ -0,0 +1,228 @@
+import {
+    CreatePostData,
+    MediaType,
+    PlatformRules,
+    PostMediaItem,
+    PostValidationResult,
+    SocialPlatform,
+    ValidationError,
+    ValidationFieldError,
+} from './types';
+
+const MB = 1024 * 1024;
+
+// Publishing limits per network; `recommended*` values only produce warnings
+export const PLATFORM_RULES: Record<SocialPlatform, PlatformRules> = {
+    x: {
+        maxLength: 280,
+        urlLength: 23,
+        maxMedia: 4,
+        requiresMedia: false,
+        allowMixedMedia: false,
+        maxVideos: 1,
+        maxVideoDuration: 140,
+        maxVideoSize: 512 * MB,
+        maxHashtags: 10,
+        recommendedHashtags: 2,
+        maxMentions: 10,
+        altText: 'recommended',
+        maxThreadLength: 25,
+    },
+    linkedin: {
+        maxLength: 3000,
+        maxMedia: 9,
+        requiresMedia: false,
+        allowMixedMedia: false,
+        maxVideos: 1,
+        maxVideoDuration: 600,
+        maxVideoSize: 5 * 1024 * MB,
+        maxHashtags: 30,
+        recommendedHashtags: 5,
+        maxMentions: 50,
+        altText: 'recommended',
+        maxThreadLength: 0,
+        // Multi-image posts
+        carousel: { minSlides: 2, maxSlides: 20, allowMixedMedia: false, slideCaptions: true },
+    },
+    facebook: {
+        maxLength: 63206,
+        maxMedia: 10,
+        requiresMedia: false,
+        allowMixedMedia: true,
+        maxVideos: 1,
+        maxVideoDuration: 240 * 60,
+        maxVideoSize: 10 * 1024 * MB,
+        maxHashtags: 30,
+        recommendedHashtags: 3,
+        maxMentions: 50,
+        altText: 'optional',
+        maxThreadLength: 0,
+        // Albums, where each photo or video keeps its own caption
+        carousel: { minSlides: 2, maxSlides: 10, allowMixedMedia: true, slideCaptions: true },
+    },
+    instagram: {
+        maxLength: 2200,
+        maxMedia: 10,
+        requiresMedia: true,
+        allowMixedMedia: true,
+        maxVideos: 10,
+        maxVideoDuration: 90,
+        maxVideoSize: 1024 * MB,
+        maxHashtags: 30,
+        recommendedHashtags: 5,
+        maxMentions: 20,
+        altText: 'recommended',
+        maxThreadLength: 0,
+        carousel: { minSlides: 2, maxSlides: 10, allowMixedMedia: true, slideCaptions: false },
+    },
+};
+
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+const HASHTAG_PATTERN = /(?:^|[^\p{L}\p{N}_&])#[\p{L}\p{N}_]+/gu;
+const MENTION_PATTERN = /(?:^|[^\p{L}\p{N}_])@[\w.]+/gu;
+
+// Length as the network counts it: code points, with each URL weighted as `urlLength` when the network shortens links
+export const countPostLength = (text: string, urlLength?: number): number => {
+    if (urlLength === undefined) {
+        return Array.from(text).length;
+    }
+
+    const urls = text.match(URL_PATTERN) || [];
+    return Array.from(text.replace(URL_PATTERN, '')).length + urls.length * urlLength;
+};
+
+const issue = (field: string, code: string, message: string): ValidationFieldError => ({ field, code, message });
+
+// Checks `data` against the platform's limits without calling the API
+export const validatePost = (
+    platform: SocialPlatform,
+    data: CreatePostData,
+    rules: PlatformRules = PLATFORM_RULES[platform]
+): PostValidationResult => {
+    const errors: ValidationFieldError[] = [];
+    const warnings: ValidationFieldError[] = [];
+    const media = data.media || [];
+    const thread = data.thread || [];
+    const carousel = data.carousel || [];
+
+    const checkText = (field: string, text: string) => {
+        const length = countPostLength(text, rules.urlLength);
+        if (length > rules.maxLength) {
+            errors.push(issue(field, 'TEXT_TOO_LONG', `Text is ${length} characters; ${platform} allows ${rules.maxLength}`));
+        }
+
+        const hashtags = text.match(HASHTAG_PATTERN)?.length || 0;
+        if (hashtags > rules.maxHashtags) {
+            errors.push(issue(field, 'TOO_MANY_HASHTAGS', `${hashtags} hashtags; ${platform} allows ${rules.maxHashtags}`));
+        } else if (hashtags > rules.recommendedHashtags) {
+            warnings.push(issue(field, 'HASHTAGS_ABOVE_RECOMMENDED', `${hashtags} hashtags; ${rules.recommendedHashtags} or fewer is recommended on ${platform}`));
+        }
+
+        const mentions = text.match(MENTION_PATTERN)?.length || 0;
+        if (mentions > rules.maxMentions) {
+            errors.push(issue(field, 'TOO_MANY_MENTIONS', `${mentions} mentions; ${platform} allows ${rules.maxMentions}`));
+        }
+    };
+
+    const checkMediaItem = (field: string, item: PostMediaItem) => {
+        if (item.type === 'video' && item.duration !== undefined && item.duration > rules.maxVideoDuration) {
+            errors.push(issue(field, 'VIDEO_TOO_LONG', `Video is ${Math.round(item.duration)}s; ${platform} allows ${rules.maxVideoDuration}s`));
+        }
+        if (item.type === 'video' && item.size !== undefined && item.size > rules.maxVideoSize) {
+            errors.push(issue(field, 'VIDEO_TOO_LARGE', `Video is ${Math.round(item.size / MB)}MB; ${platform} allows ${rules.maxVideoSize / MB}MB`));
+        }
+        if (item.type !== 'video' && !item.alt_text?.trim() && rules.altText !== 'optional') {
+            const message = `${field} has no alt text`;
+            (rules.altText === 'required' ? errors : warnings).push(issue(field, 'ALT_TEXT_MISSING', message));
+        }
+    };
+
+    const checkMedia = (field: string, items: PostMediaItem[]) => {
+        if (items.length > rules.maxMedia) {
+            errors.push(issue(field, 'TOO_MANY_MEDIA', `${items.length} media items; ${platform} allows ${rules.maxMedia}`));
+        }
+
+        const types = new Set<MediaType>(items.map(item => item.type));
+        const videos = items.filter(item => item.type === 'video').length;
+        if (!rules.allowMixedMedia && types.size > 1) {
+            errors.push(issue(field, 'MEDIA_MIX_NOT_ALLOWED', `${platform} posts cannot combine ${Array.from(types).join(' and ')} media`));
+        } else if (videos > rules.maxVideos) {
+            errors.push(issue(field, 'TOO_MANY_VIDEOS', `${videos} videos; ${platform} allows ${rules.maxVideos} per post`));
+        }
+
+        items.forEach((item, index) => checkMediaItem(`${field}[${index}]`, item));
+    };
+
+    if (!data.text?.trim() && media.length === 0 && carousel.length === 0) {
+        errors.push(issue('text', 'TEXT_REQUIRED', 'Post needs text or media'));
+    }
+    checkText('text', data.text || '');
+    checkMedia('media', media);
+
+    if (rules.requiresMedia && media.length === 0 && carousel.length === 0) {
+        errors.push(issue('media', 'MEDIA_REQUIRED', `${platform} posts need at least one image or video`));
+    }
+
+    if (thread.length > 0) {
+        if (rules.maxThreadLength === 0) {
+            errors.push(issue('thread', 'THREAD_NOT_SUPPORTED', `${platform} does not support threads`));
+        } else if (thread.length + 1 > rules.maxThreadLength) {
+            errors.push(issue('thread', 'THREAD_TOO_LONG', `Thread has ${thread.length + 1} posts; ${platform} allows ${rules.maxThreadLength}`));
+        }
+
+        thread.forEach((segment, index) => {
+            const field = `thread[${index}]`;
+            if (!segment.text?.trim() && !segment.media?.length) {
+                errors.push(issue(`${field}.text`, 'TEXT_REQUIRED', `${field} needs text or media`));
+            }
+            checkText(`${field}.text`, segment.text || '');
+            checkMedia(`${field}.media`, segment.media || []);
+        });
+    }
+
+    if (carousel.length > 0) {
+        const carouselRules = rules.carousel;
+        const types = new Set<MediaType>(carousel.map(slide => slide.type));
+
+        if (!carouselRules) {
+            errors.push(issue('carousel', 'CAROUSEL_NOT_SUPPORTED', `${platform} does not support carousels`));
+        } else {
+            if (carousel.length < carouselRules.minSlides || carousel.length > carouselRules.maxSlides) {
+                errors.push(issue('carousel', 'CAROUSEL_SLIDE_COUNT',
+                    `Carousel has ${carousel.length} slides; ${platform} needs ${carouselRules.minSlides}-${carouselRules.maxSlides}`));
+            }
+            if (!carouselRules.allowMixedMedia && types.size > 1) {
+                errors.push(issue('carousel', 'MEDIA_MIX_NOT_ALLOWED', `${platform} carousels cannot combine ${Array.from(types).join(' and ')} slides`));
+            }
+            if (!carouselRules.slideCaptions && carousel.some(slide => slide.caption)) {
+                warnings.push(issue('carousel', 'SLIDE_CAPTIONS_IGNORED', `${platform} shows only the post text; slide captions are dropped`));
+            }
+        }
+        if (media.length > 0 || thread.length > 0) {
+            errors.push(issue('carousel', 'CAROUSEL_CONFLICT', 'A carousel cannot be combined with `media` or `thread`'));
+        }
+
+        carousel.forEach((slide, index) => {
+            checkMediaItem(`carousel[${index}]`, slide);
+            if (slide.caption) {
+                checkText(`carousel[${index}].caption`, slide.caption);
+            }
+        });
+    }
+
+    return { valid: errors.length === 0, errors, warnings };
+};
+
+// Throws a ValidationError listing every error (and any warnings) when the post cannot be published on `platform`
+export const assertValidPost = (platform: SocialPlatform, data: CreatePostData): PostValidationResult => {
+    const result = validatePost(platform, data);
+    if (!result.valid) {
+        const summary = result.errors.map(error => error.message).join('; ');
+        throw new ValidationError('POST_VALIDATION_FAILED', `Post is not valid for ${platform}: ${summary}`, 422, {
+            platform,
+            fieldErrors: result.errors,
+            warnings: result.warnings,
+        });
+    }
+    return result;
+};
@@ -0,0 +1,51 @@
+import { computeSlotTimes } from './schedule';
+import { BufferPost, BufferProfile, ProfileQueue, ValidationError } from './types';
+
+// Requested ids go first in the given order; posts that were not mentioned keep their relative order after them
+export const resolveQueueOrder = (currentIds: string[], requestedIds: string[]): string[] => {
+    const duplicates = requestedIds.filter((id, index) => requestedIds.indexOf(id) !== index);
+    const unknown = requestedIds.filter(id => !currentIds.includes(id));
+    const problems = [
+        ...duplicates.map(id => `Post ${id} is listed more than once`),
+        ...unknown.map(id => `Post ${id} is not in the queue`),
+    ];
+
+    if (problems.length > 0) {
+        throw new ValidationError('VALIDATION_ERROR', problems.join('; '), 400, {
+            fieldErrors: problems.map(message => ({ field: 'postIds', message })),
+        });
+    }
+
+    return [...requestedIds, ...currentIds.filter(id => !requestedIds.includes(id))];
+};
+
+export const shuffleIds = (ids: string[], random = Math.random): string[] => {
+    const shuffled = [...ids];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+};
+
+// Assigns queued posts, in order, to the profile's upcoming schedule slots
+export const buildQueue = (profile: BufferProfile, posts: BufferPost[], paused: boolean, from = Date.now()): ProfileQueue => {
+    const slots = computeSlotTimes(profile.schedules, profile.timezone, posts.length, from);
+
+    return {
+        profileId: profile.id,
+        timezone: profile.timezone,
+        paused,
+        posts: posts.map((post, index) => ({
+            ...post,
+            position: index + 1,
+            slot: slots[index],
+            due_at: slots[index]?.dueAt ?? post.due_at,
+        })),
+    };
+};
+
+// The slot times the queue fills, in queue order; free slots are the ones after these, whatever the posts' own due_at
+export const getQueuedSlotTimes = (queue: ProfileQueue): number[] => {
+    return queue.posts.map(post => post.slot?.dueAt).filter((dueAt): dueAt is number => dueAt !== undefined);
+};
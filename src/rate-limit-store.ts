@@ -0,0 +1,121 @@
+import { BufferAPIError, FileRateLimitStoreOptions, RateLimitStore, RateLimitStoreResult } from './types';
+
+interface WindowEntry {
+    count: number;
+    resetAt: number;
+}
+
+const consumeWindow = (entry: WindowEntry | undefined, limit: number, ttlMs: number, now: number) => {
+    const current = entry && entry.resetAt > now ? entry : { count: 0, resetAt: now + ttlMs };
+    const allowed = current.count < limit;
+    const next = allowed ? { ...current, count: current.count + 1 } : current;
+    const result: RateLimitStoreResult = { allowed, count: next.count, resetAt: next.resetAt };
+
+    return { next, result };
+};
+
+// Shares one budget between clients in the same process
+export class MemoryRateLimitStore implements RateLimitStore {
+    private windows = new Map<string, WindowEntry>();
+
+    public async consume(key: string, limit: number, ttlMs: number): Promise<RateLimitStoreResult> {
+        const { next, result } = consumeWindow(this.windows.get(key), limit, ttlMs, Date.now());
+        this.windows.set(key, next);
+        return result;
+    }
+
+    public async reset(key: string): Promise<void> {
+        this.windows.delete(key);
+    }
+}
+
+// Shares one budget between processes on the same host through a JSON file guarded by a lock file (Node.js only)
+export class FileRateLimitStore implements RateLimitStore {
+    private readonly filePath: string;
+    private readonly lockPath: string;
+    private readonly lockTimeoutMs: number;
+    private readonly staleLockMs: number;
+
+    constructor(filePath: string, options: FileRateLimitStoreOptions = {}) {
+        this.filePath = filePath;
+        this.lockPath = `${filePath}.lock`;
+        this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+        this.staleLockMs = options.staleLockMs ?? 10000;
+    }
+
+    public async consume(key: string, limit: number, ttlMs: number): Promise<RateLimitStoreResult> {
+        return this.withLock(async windows => {
+            const { next, result } = consumeWindow(windows[key], limit, ttlMs, Date.now());
+            windows[key] = next;
+            return result;
+        });
+    }
+
+    public async reset(key: string): Promise<void> {
+        return this.withLock(async windows => {
+            delete windows[key];
+        });
+    }
+
+    private async withLock<T>(update: (windows: Record<string, WindowEntry>) => Promise<T>): Promise<T> {
+        const { promises: fs } = await import('fs');
+        await this.acquireLock();
+
+        try {
+            let windows: Record<string, WindowEntry> = {};
+            try {
+                windows = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') {
+                    throw error;
+                }
+            }
+
+            const result = await update(windows);
+
+            // Drop expired windows so the file does not grow forever
+            const now = Date.now();
+            Object.keys(windows).forEach(key => {
+                if (windows[key].resetAt <= now) {
+                    delete windows[key];
+                }
+            });
+
+            const tempPath = `${this.filePath}.${process.pid}.tmp`;
+            await fs.writeFile(tempPath, JSON.stringify(windows));
+            await fs.rename(tempPath, this.filePath);
+            return result;
+        } finally {
+            await fs.unlink(this.lockPath).catch(() => undefined);
+        }
+    }
+
+    // The lock is a file created with O_EXCL, which is atomic across processes
+    private async acquireLock(): Promise<void> {
+        const { promises: fs } = await import('fs');
+        const deadline = Date.now() + this.lockTimeoutMs;
+
+        for (let delay = 2; ; delay = Math.min(delay * 2, 50)) {
+            try {
+                const handle = await fs.open(this.lockPath, 'wx');
+                await handle.close();
+                return;
+            } catch (error: any) {
+                if (error.code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+
+            const stat = await fs.stat(this.lockPath).catch(() => undefined);
+            if (stat && Date.now() - stat.mtimeMs > this.staleLockMs) {
+                await fs.unlink(this.lockPath).catch(() => undefined);
+                continue;
+            }
+
+            if (Date.now() >= deadline) {
+                throw new BufferAPIError('RATE_LIMIT_STORE_LOCKED', `Could not lock ${this.lockPath} within ${this.lockTimeoutMs}ms`);
+            }
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
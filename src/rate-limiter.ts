@@ -0,0 +1,265 @@
+import { abortableSleep, createAbortError, throwIfAborted } from './abort';
+import {
+    RateLimitError,
+    RateLimiterOptions,
+    RateLimiterStatus,
+    RateLimitStore,
+    RateLimitStoreResult,
+    ServerRateLimitInfo,
+} from './types';
+
+interface Waiter {
+    resolve: () => void;
+    reject: (error: RateLimitError) => void;
+}
+
+// Token bucket that refills continuously at `requests` per `window` and queues callers while it is empty.
+// With a `store`, every request must also fit in the budget shared with other processes.
+export class TokenBucketRateLimiter {
+    private readonly options: RateLimiterOptions;
+    private readonly refillPerMs: number;
+    private tokens: number;
+    private lastRefill: number;
+    private queue: Waiter[] = [];
+    private timer?: ReturnType<typeof setTimeout>;
+    private pausedUntil = 0;
+    private serverRemaining?: number;
+    private serverResetAt?: number;
+    private sharedWaiting = 0;
+    private lastShared?: RateLimitStoreResult;
+
+    constructor(options: RateLimiterOptions) {
+        this.options = options;
+        this.refillPerMs = options.requests / options.window;
+        this.tokens = options.requests;
+        this.lastRefill = Date.now();
+    }
+
+    // Resolves once the caller may send one request; rejects with REQUEST_ABORTED if `signal` fires while waiting
+    public async acquire(signal?: AbortSignal): Promise<void> {
+        throwIfAborted(signal);
+        await this.acquireLocal(signal);
+
+        if (this.options.store) {
+            await this.acquireShared(this.options.store, signal);
+        }
+    }
+
+    private async acquireLocal(signal?: AbortSignal): Promise<void> {
+        this.refill();
+
+        if (this.queue.length === 0 && this.hasCapacity()) {
+            this.consume();
+            return;
+        }
+
+        const { strategy, maxQueueLength, maxWaitMs } = this.options;
+        if (strategy === 'throw') {
+            throw this.exceededError(this.estimateWait(1));
+        }
+
+        if (this.queue.length >= maxQueueLength) {
+            if (strategy === 'queue') {
+                throw new RateLimitError(
+                    'RATE_LIMIT_QUEUE_FULL',
+                    `Rate limit queue is full (${maxQueueLength} requests waiting)`,
+                    429
+                );
+            }
+
+            this.queue.shift()?.reject(new RateLimitError(
+                'RATE_LIMIT_DROPPED',
+                'Request was dropped from the rate limit queue to make room for a newer one',
+                429
+            ));
+        }
+
+        const waitMs = this.estimateWait(this.queue.length + 1);
+        if (waitMs > maxWaitMs) {
+            throw this.exceededError(waitMs);
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            const onAbort = () => {
+                // An aborted waiter gives up its place without consuming a token
+                this.queue = this.queue.filter(queued => queued !== waiter);
+                reject(createAbortError(signal));
+            };
+            const waiter: Waiter = {
+                resolve: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                },
+                reject: error => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.queue.push(waiter);
+            this.scheduleDrain();
+        });
+    }
+
+    // Waits for room in the shared window; other processes may be consuming the same budget
+    private async acquireShared(store: RateLimitStore, signal?: AbortSignal): Promise<void> {
+        const { requests, window, strategy, maxWaitMs, key = 'buffer-sdk' } = this.options;
+        const deadline = Date.now() + maxWaitMs;
+
+        for (;;) {
+            const result = await store.consume(key, requests, window);
+            this.lastShared = result;
+            if (result.allowed) {
+                return;
+            }
+
+            const waitMs = Math.max(0, result.resetAt - Date.now());
+            if (strategy === 'throw' || Date.now() + waitMs > deadline) {
+                throw this.exceededError(waitMs);
+            }
+
+            this.sharedWaiting++;
+            try {
+                await abortableSleep(Math.max(waitMs, 1), signal);
+            } finally {
+                this.sharedWaiting--;
+            }
+        }
+    }
+
+    public getStatus(): RateLimiterStatus {
+        this.refill();
+        const now = Date.now();
+        const available = this.hasCapacity() ? Math.floor(this.tokens) : 0;
+        const serverRemaining = this.serverResetAt === undefined || this.serverResetAt > now ? this.serverRemaining : undefined;
+        const shared = this.lastShared && this.lastShared.resetAt > now ? this.lastShared : undefined;
+        const sharedRemaining = shared ? this.options.requests - shared.count : undefined;
+        const queueDepth = this.queue.length + this.sharedWaiting;
+
+        let resetAt = now + Math.ceil((this.options.requests - this.tokens) / this.refillPerMs);
+        if (this.serverResetAt && this.serverResetAt > now) {
+            resetAt = this.serverResetAt;
+        } else if (shared) {
+            resetAt = shared.resetAt;
+        }
+
+        return {
+            available,
+            queueDepth,
+            estimatedWaitMs: queueDepth === 0 && this.hasCapacity() ? 0 : this.estimateWait(this.queue.length + 1),
+            remaining: Math.min(available, serverRemaining ?? Infinity, sharedRemaining ?? Infinity),
+            resetAt,
+        };
+    }
+
+    // Aligns the local bucket with what the API reported; the stricter of the two wins
+    public syncFromServer(info: ServerRateLimitInfo): void {
+        this.refill();
+        const now = Date.now();
+
+        if (info.remaining !== undefined) {
+            this.serverRemaining = info.remaining;
+            this.tokens = Math.min(this.tokens, info.remaining);
+        }
+        if (info.resetAt !== undefined) {
+            this.serverResetAt = info.resetAt;
+        }
+
+        if (info.retryAfterMs !== undefined) {
+            this.pauseUntil(now + info.retryAfterMs);
+        } else if (info.remaining === 0 && info.resetAt !== undefined && info.resetAt > now) {
+            this.pauseUntil(info.resetAt);
+        }
+    }
+
+    // Holds every request until `time` (epoch ms), e.g. after a 429 with Retry-After
+    public pauseUntil(time: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, time);
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.scheduleDrain();
+    }
+
+    private hasCapacity(): boolean {
+        return this.tokens >= 1 && Date.now() >= this.pausedUntil;
+    }
+
+    private consume(): void {
+        this.tokens -= 1;
+        if (this.serverRemaining !== undefined && this.serverRemaining > 0) {
+            this.serverRemaining -= 1;
+        }
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.options.requests, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+        this.lastRefill = now;
+    }
+
+    // Time until `position` more tokens are available
+    private estimateWait(position: number): number {
+        const pauseMs = Math.max(0, this.pausedUntil - Date.now());
+        const missing = position - this.tokens;
+        return Math.max(pauseMs, missing > 0 ? Math.ceil(missing / this.refillPerMs) : 0);
+    }
+
+    private scheduleDrain(): void {
+        if (this.timer || this.queue.length === 0) {
+            return;
+        }
+
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.drain();
+        }, this.estimateWait(1));
+    }
+
+    private drain(): void {
+        this.refill();
+        while (this.queue.length > 0 && this.hasCapacity()) {
+            this.consume();
+            this.queue.shift()?.resolve();
+        }
+        this.scheduleDrain();
+    }
+
+    private exceededError(waitMs: number): RateLimitError {
+        return new RateLimitError(
+            'RATE_LIMIT_EXCEEDED',
+            `Rate limit exceeded. Try again in ${Math.ceil(waitMs / 1000)} seconds.`,
+            429,
+            { retryAfterMs: waitMs }
+        );
+    }
+}
+
+// Reads X-RateLimit-Remaining / X-RateLimit-Reset and Retry-After from lower-cased response headers
+export const parseRateLimitHeaders = (headers: Record<string, string> = {}, now = Date.now()): ServerRateLimitInfo => {
+    const info: ServerRateLimitInfo = {};
+
+    const remaining = parseInt(headers['x-ratelimit-remaining'], 10);
+    if (!isNaN(remaining)) {
+        info.remaining = remaining;
+    }
+
+    // Reset is either an epoch timestamp in seconds or a number of seconds from now
+    const reset = parseFloat(headers['x-ratelimit-reset']);
+    if (!isNaN(reset)) {
+        info.resetAt = reset > 1e9 ? reset * 1000 : now + reset * 1000;
+    }
+
+    // Retry-After is either a number of seconds or an HTTP date
+    const retryAfter = headers['retry-after'];
+    if (retryAfter !== undefined) {
+        const seconds = Number(retryAfter);
+        const retryAt = isNaN(seconds) ? Date.parse(retryAfter) : now + seconds * 1000;
+        if (!isNaN(retryAt)) {
+            info.retryAfterMs = Math.max(0, retryAt - now);
+        }
+    }
+
+    return info;
+};
@@ -0,0 +1,218 @@
+import { getZonedParts, normalizeDay, parseTime, zonedTimeToUtc } from './schedule';
+import { EvergreenOptions, PostAnalytics, RecurrenceRule, ValidationError, ValidationFieldError } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const RRULE_DAYS: Record<string, string> = { MO: 'mon', TU: 'tue', WE: 'wed', TH: 'thu', FR: 'fri', SA: 'sat', SU: 'sun' };
+const FREQUENCIES = ['daily', 'weekly', 'monthly'];
+// Stops the scan for rules that can never match, such as the 31st of every February
+const MAX_SCAN_DAYS = 366 * 50;
+
+const invalid = (fieldErrors: ValidationFieldError[]): ValidationError => {
+    return new ValidationError('VALIDATION_ERROR', fieldErrors.map(error => error.message).join('; '), 400, { fieldErrors });
+};
+
+const toTime = (value: string | Date): number => (value instanceof Date ? value.getTime() : Date.parse(value));
+
+// Supports FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY with ordinals (3TU, -1FR), BYMONTHDAY, COUNT and UNTIL
+export const parseRRule = (rrule: string): RecurrenceRule => {
+    const fields: Record<string, string> = {};
+    rrule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean).forEach(part => {
+        const [key, value = ''] = part.split('=');
+        fields[key.trim().toUpperCase()] = value.trim();
+    });
+
+    const until = fields.UNTIL?.replace(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/, (_, y, m, d, hh = '23', mm = '59', ss = '59') =>
+        `${y}-${m}-${d}T${hh}:${mm}:${ss}Z`);
+
+    return normalizeRecurrenceRule({
+        frequency: (fields.FREQ || '').toLowerCase() as RecurrenceRule['frequency'],
+        interval: fields.INTERVAL ? Number(fields.INTERVAL) : undefined,
+        byDay: fields.BYDAY?.split(',').map(value => {
+            const match = /^([+-]?\d{1,2})?([A-Z]{2})$/i.exec(value.trim());
+            if (!match || !RRULE_DAYS[match[2].toUpperCase()]) {
+                return value;
+            }
+            return `${match[1] ? Number(match[1]) : ''}${RRULE_DAYS[match[2].toUpperCase()]}`;
+        }),
+        byMonthDay: fields.BYMONTHDAY?.split(',').map(Number),
+        count: fields.COUNT ? Number(fields.COUNT) : undefined,
+        until,
+    });
+};
+
+// Validates a rule (parsing RRULE strings) and canonicalizes weekday names, collecting every problem
+export const normalizeRecurrenceRule = (rule: RecurrenceRule | string): RecurrenceRule => {
+    if (typeof rule === 'string') {
+        return parseRRule(rule);
+    }
+
+    const errors: ValidationFieldError[] = [];
+    const positiveInteger = (value: number | undefined) => value === undefined || (Number.isInteger(value) && value > 0);
+
+    if (!FREQUENCIES.includes(rule.frequency)) {
+        errors.push({ field: 'rule.frequency', message: `Unsupported frequency ${rule.frequency}; use daily, weekly or monthly` });
+    }
+    if (!positiveInteger(rule.interval)) {
+        errors.push({ field: 'rule.interval', message: 'interval must be a positive integer' });
+    }
+    if (!positiveInteger(rule.count)) {
+        errors.push({ field: 'rule.count', message: 'count must be a positive integer' });
+    }
+    if (rule.until !== undefined && Number.isNaN(toTime(rule.until))) {
+        errors.push({ field: 'rule.until', message: `Invalid until date ${rule.until}` });
+    }
+
+    const byDay = rule.byDay?.map(value => {
+        const match = /^([+-]?\d)?\s*([a-z]+)$/i.exec(String(value).trim());
+        const day = match ? normalizeDay(match[2]) : undefined;
+        const ordinal = match?.[1] ? Number(match[1]) : undefined;
+        if (!day || ordinal === 0 || (ordinal !== undefined && (rule.frequency !== 'monthly' || Math.abs(ordinal) > 5))) {
+            errors.push({ field: 'rule.byDay', message: `Invalid day ${value}; ordinals such as 3tue are only allowed in monthly rules` });
+            return String(value);
+        }
+        return `${ordinal ?? ''}${day}`;
+    });
+
+    if (rule.byMonthDay?.some(day => !Number.isInteger(day) || day === 0 || Math.abs(day) > 31)) {
+        errors.push({ field: 'rule.byMonthDay', message: 'byMonthDay values must be 1-31 or -31 to -1' });
+    } else if (rule.byMonthDay && rule.frequency !== 'monthly') {
+        errors.push({ field: 'rule.byMonthDay', message: 'byMonthDay is only allowed in monthly rules' });
+    }
+
+    if (errors.length > 0) {
+        throw invalid(errors);
+    }
+    return { ...rule, byDay };
+};
+
+// `date` is a UTC midnight standing for a calendar day in the series' timezone
+const matchesRule = (rule: RecurrenceRule, date: Date, startDate: Date): boolean => {
+    const interval = rule.interval || 1;
+    const weekday = WEEKDAYS[date.getUTCDay()];
+    const plainDays = (rule.byDay || []).filter(day => WEEKDAYS.includes(day));
+
+    if (rule.frequency === 'daily') {
+        const days = Math.round((date.getTime() - startDate.getTime()) / DAY_MS);
+        return days % interval === 0 && (plainDays.length === 0 || plainDays.includes(weekday));
+    }
+
+    if (rule.frequency === 'weekly') {
+        // Weeks start on Monday
+        const startWeek = startDate.getTime() - ((startDate.getUTCDay() + 6) % 7) * DAY_MS;
+        const weeks = Math.floor((date.getTime() - startWeek) / (7 * DAY_MS));
+        const days = rule.byDay?.length ? rule.byDay : [WEEKDAYS[startDate.getUTCDay()]];
+        return weeks % interval === 0 && days.includes(weekday);
+    }
+
+    const months = (date.getUTCFullYear() - startDate.getUTCFullYear()) * 12 + date.getUTCMonth() - startDate.getUTCMonth();
+    if (months % interval !== 0) {
+        return false;
+    }
+
+    const day = date.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    if (rule.byMonthDay?.length) {
+        return rule.byMonthDay.some(monthDay => (monthDay > 0 ? monthDay : daysInMonth + monthDay + 1) === day);
+    }
+    if (rule.byDay?.length) {
+        return rule.byDay.some(entry => {
+            const [, ordinal, name] = /^(-?\d)?(\w+)$/.exec(entry) || [];
+            if (name !== weekday) {
+                return false;
+            }
+            if (!ordinal) {
+                return true;
+            }
+            const n = Number(ordinal);
+            return n > 0 ? Math.ceil(day / 7) === n : Math.floor((daysInMonth - day) / 7) === -n - 1;
+        });
+    }
+    return day === startDate.getUTCDate();
+};
+
+// Occurrences of the series due in [from, to). Indexes count from `start`, so `count` and text variations stay stable
+// whichever window is expanded.
+export const expandRecurrence = (
+    rule: RecurrenceRule,
+    series: { start: string | Date; time: string; timezone: string },
+    from: number,
+    to: number
+): Array<{ index: number; dueAt: number }> => {
+    const [hour, minute] = parseTime(series.time);
+    const startAt = toTime(series.start);
+    if (Number.isNaN(startAt)) {
+        throw invalid([{ field: 'start', message: `Invalid start date ${series.start}` }]);
+    }
+
+    const until = rule.until !== undefined ? toTime(rule.until) : Infinity;
+    const local = getZonedParts(startAt, series.timezone);
+    const startDate = new Date(Date.UTC(local.year, local.month - 1, local.day));
+
+    const occurrences: Array<{ index: number; dueAt: number }> = [];
+    let index = 0;
+    for (let offset = 0; offset < MAX_SCAN_DAYS; offset++) {
+        const date = new Date(startDate.getTime() + offset * DAY_MS);
+        // A calendar day starts at most 14 hours before its UTC midnight
+        if (date.getTime() - DAY_MS > Math.min(to, until)) {
+            break;
+        }
+        if (!matchesRule(rule, date, startDate)) {
+            continue;
+        }
+
+        const dueAt = zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, minute, series.timezone);
+        if (dueAt < startAt) {
+            continue;
+        }
+        if (dueAt > until || dueAt >= to || (rule.count !== undefined && index >= rule.count)) {
+            break;
+        }
+
+        if (dueAt >= from) {
+            occurrences.push({ index, dueAt });
+        }
+        index++;
+    }
+    return occurrences;
+};
+
+// Case and spacing changes do not make a post new content
+const evergreenContentKey = (post: PostAnalytics): string => post.text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Best performers first, one per piece of content, each with the earliest time it may be shared again (`minGapDays`
+// after the latest share of that content under any post id). `lastShared` holds re-queue times by content key;
+// content re-queued for a time still in the future is left out.
+export const selectEvergreenPosts = (
+    analytics: PostAnalytics[],
+    lastShared: Map<string, number>,
+    options: EvergreenOptions = {},
+    now = Date.now()
+): Array<{ post: PostAnalytics; contentKey: string; notBefore: number }> => {
+    const { top = 10, minGapDays = 30, rankBy = 'engagementRate', contentKey = evergreenContentKey } = options;
+    const minGap = minGapDays * DAY_MS;
+    const score = (post: PostAnalytics) => (rankBy === 'clicks' ? post.metrics.clicks : post[rankBy]);
+
+    const candidates = analytics
+        .filter(post => post.text?.trim())
+        .map(post => ({ post, contentKey: contentKey(post) }));
+    // Latest share of each piece of content, whichever post id it went out under
+    const sharedAt = new Map(lastShared);
+    candidates.forEach(({ post, contentKey: key }) => {
+        sharedAt.set(key, Math.max(sharedAt.get(key) || 0, Date.parse(post.publishedAt) || 0));
+    });
+
+    const picked = new Set<string>();
+    return candidates
+        .filter(({ contentKey: key }) => (lastShared.get(key) || 0) <= now)
+        .sort((a, b) => score(b.post) - score(a.post))
+        .filter(({ contentKey: key }) => {
+            if (picked.has(key)) {
+                return false;
+            }
+            picked.add(key);
+            return true;
+        })
+        .slice(0, top)
+        .map(candidate => ({ ...candidate, notBefore: Math.max(now, (sharedAt.get(candidate.contentKey) || 0) + minGap) }));
+};
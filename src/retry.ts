@@ -0,0 +1,63 @@
+import { BufferAPIError, BufferRequest, RetryPolicy } from './types';
+
+const RETRYABLE_CODES = ['NETWORK_ERROR', 'TIMEOUT', 'HTTP_500', 'HTTP_502', 'HTTP_503', 'HTTP_504'];
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    attempts: 3,
+    delay: 1000,
+    backoffFactor: 2,
+    maxDelay: 30000,
+    jitter: 'full',
+    retryNonIdempotent: false,
+};
+
+export const isRetryableError = (error: BufferAPIError): boolean => {
+    if (RETRYABLE_CODES.includes(error.code)) {
+        return true;
+    }
+    // Server-side 429s and 5xx responses that carry their own error code
+    return error.headers !== undefined && (error.statusCode === 429 || (error.statusCode || 0) >= 500);
+};
+
+// A request may be replayed when repeating it cannot change the outcome
+export const isSafeToRetry = (request: BufferRequest, error: BufferAPIError, policy: RetryPolicy): boolean => {
+    if (policy.retryNonIdempotent || IDEMPOTENT_METHODS.includes(request.method)) {
+        return true;
+    }
+
+    const hasIdempotencyKey = Object.keys(request.headers).some(header => header.toLowerCase() === 'idempotency-key');
+    // A 429 means the server rejected the request before processing it
+    return hasIdempotencyKey || error.statusCode === 429;
+};
+
+export const computeRetryDelay = (policy: RetryPolicy, attempt: number, random = Math.random): number => {
+    const backoff = Math.min(policy.maxDelay, policy.delay * Math.pow(policy.backoffFactor, attempt - 1));
+
+    switch (policy.jitter) {
+        case 'full':
+            return Math.floor(random() * backoff);
+        case 'equal':
+            return Math.floor(backoff / 2 + random() * (backoff / 2));
+        default:
+            return backoff;
+    }
+};
+
+export const mergeRetryPolicy = (base: RetryPolicy, override?: Partial<RetryPolicy> | false): RetryPolicy => {
+    if (override === false) {
+        return { ...base, attempts: 1 };
+    }
+    return { ...base, ...override };
+};
+
+// Sent as the Idempotency-Key header so the API can deduplicate replays of the same create
+export const createIdempotencyKey = async (): Promise<string> => {
+    const webCrypto = (globalThis as any).crypto;
+    if (webCrypto?.randomUUID) {
+        return webCrypto.randomUUID();
+    }
+
+    const nodeCrypto = await import('crypto');
+    return nodeCrypto.randomUUID();
+};
@@ -0,0 +1,261 @@
+import { BufferProfile, PostingSchedule, ScheduleSlot, ValidationError, ValidationFieldError } from './types';
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+// Order used when schedules are written back: Monday first
+const SCHEDULE_DAY_ORDER = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const FULL_DAY_NAMES: Record<string, string> = {
+    monday: 'mon',
+    tuesday: 'tue',
+    wednesday: 'wed',
+    thursday: 'thu',
+    friday: 'fri',
+    saturday: 'sat',
+    sunday: 'sun',
+};
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ZonedParts {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const invalid = (fieldErrors: ValidationFieldError[]): ValidationError => {
+    return new ValidationError('VALIDATION_ERROR', fieldErrors.map(error => error.message).join('; '), 400, { fieldErrors });
+};
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        try {
+            formatter = new Intl.DateTimeFormat('en-US', {
+                timeZone,
+                hourCycle: 'h23',
+                year: 'numeric',
+                month: 'numeric',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: 'numeric',
+                second: 'numeric',
+            });
+        } catch {
+            throw invalid([{ field: 'timezone', message: `Unknown timezone ${timeZone}` }]);
+        }
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+export const getZonedParts = (time: number, timeZone: string): ZonedParts => {
+    const parts: Record<string, number> = {};
+    getFormatter(timeZone).formatToParts(new Date(time)).forEach(part => {
+        if (part.type !== 'literal') {
+            parts[part.type] = Number(part.value);
+        }
+    });
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour,
+        minute: parts.minute,
+        second: parts.second,
+    };
+};
+
+// Difference between wall-clock time in `timeZone` and UTC at `time`
+const getOffset = (time: number, timeZone: string): number => {
+    const parts = getZonedParts(time, timeZone);
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallClock - Math.floor(time / 1000) * 1000;
+};
+
+// Converts a wall-clock time in `timeZone` to epoch ms. Times skipped by a DST jump move forward by the jump;
+// times repeated when clocks go back resolve to the first occurrence.
+export const zonedTimeToUtc = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number => {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    // The offsets a day either side bracket any transition on this date
+    const beforeGuess = wallClock - getOffset(wallClock - ONE_DAY_MS, timeZone);
+    const afterGuess = wallClock - getOffset(wallClock + ONE_DAY_MS, timeZone);
+
+    const matches = [beforeGuess, afterGuess].filter(guess => {
+        const parts = getZonedParts(guess, timeZone);
+        return parts.day === day && parts.hour === hour && parts.minute === minute;
+    });
+    // Both guesses match during a fall-back overlap, whichever side of UTC the zone is on
+    return matches.length > 0 ? Math.min(...matches) : beforeGuess;
+};
+
+// Throws unless `timeZone` is an IANA zone known to the runtime
+export const assertTimezone = (timeZone: string): void => {
+    getFormatter(timeZone);
+};
+
+export const normalizeDay = (day: string): string | undefined => {
+    const lower = String(day).trim().toLowerCase();
+    return SCHEDULE_DAY_ORDER.includes(lower) ? lower : FULL_DAY_NAMES[lower];
+};
+
+const normalizeTime = (time: string): string | undefined => {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(String(time).trim());
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+        return undefined;
+    }
+    return `${match[1].padStart(2, '0')}:${match[2]}`;
+};
+
+export const parseTime = (time: string): [number, number] => {
+    const normalized = normalizeTime(time);
+    if (!normalized) {
+        throw invalid([{ field: 'times', message: `Invalid schedule time ${time}; expected HH:mm` }]);
+    }
+    const [hour, minute] = normalized.split(':').map(Number);
+    return [hour, minute];
+};
+
+// Expands schedules into day -> times, collecting every invalid day, time and duplicate slot
+const toDayTimes = (schedules: PostingSchedule[]): Map<string, string[]> => {
+    const errors: ValidationFieldError[] = [];
+    const dayTimes = new Map<string, string[]>();
+
+    schedules.forEach((schedule, index) => {
+        const days = (schedule.days || []).map(day => {
+            const normalized = normalizeDay(day);
+            if (!normalized) {
+                errors.push({ field: `schedules[${index}].days`, message: `Unknown day ${day}; use mon, tue, wed, thu, fri, sat or sun` });
+            }
+            return normalized;
+        });
+        const times = (schedule.times || []).map(time => {
+            const normalized = normalizeTime(time);
+            if (!normalized) {
+                errors.push({ field: `schedules[${index}].times`, message: `Invalid schedule time ${time}; expected HH:mm` });
+            }
+            return normalized;
+        });
+
+        days.forEach(day => times.forEach(time => {
+            if (!day || !time) {
+                return;
+            }
+            const existing = dayTimes.get(day) || [];
+            if (existing.includes(time)) {
+                errors.push({ field: `schedules[${index}]`, message: `Duplicate slot ${day} ${time}` });
+                return;
+            }
+            dayTimes.set(day, [...existing, time]);
+        }));
+    });
+
+    if (errors.length > 0) {
+        throw invalid(errors);
+    }
+    return dayTimes;
+};
+
+// Groups days that share the same times, Monday first, with times sorted
+const fromDayTimes = (dayTimes: Map<string, string[]>): PostingSchedule[] => {
+    const groups = new Map<string, PostingSchedule>();
+    SCHEDULE_DAY_ORDER.forEach(day => {
+        const times = [...(dayTimes.get(day) || [])].sort();
+        if (times.length === 0) {
+            return;
+        }
+        const key = times.join(',');
+        const group = groups.get(key);
+        if (group) {
+            group.days.push(day);
+        } else {
+            groups.set(key, { days: [day], times });
+        }
+    });
+    return Array.from(groups.values());
+};
+
+// Validates schedules and returns them in canonical form (short lower-case days, zero-padded HH:mm times)
+export const normalizeSchedules = (schedules: PostingSchedule[]): PostingSchedule[] => {
+    if (!Array.isArray(schedules)) {
+        throw invalid([{ field: 'schedules', message: 'schedules must be an array' }]);
+    }
+    return fromDayTimes(toDayTimes(schedules));
+};
+
+export const addScheduleSlot = (schedules: PostingSchedule[], day: string, time: string): PostingSchedule[] => {
+    return normalizeSchedules([...schedules, { days: [day], times: [time] }]);
+};
+
+export const removeScheduleSlot = (schedules: PostingSchedule[], day: string, time: string): PostingSchedule[] => {
+    const dayTimes = toDayTimes(schedules);
+    const normalizedDay = normalizeDay(day);
+    const normalizedTime = normalizeTime(time);
+    const times = normalizedDay ? dayTimes.get(normalizedDay) || [] : [];
+
+    if (!normalizedDay || !normalizedTime || !times.includes(normalizedTime)) {
+        throw invalid([{ field: 'slot', message: `No slot at ${day} ${time}` }]);
+    }
+    dayTimes.set(normalizedDay, times.filter(existing => existing !== normalizedTime));
+    return fromDayTimes(dayTimes);
+};
+
+// The next `count` posting slots after `from`, in order, from a profile's weekly schedules
+export const computeSlotTimes = (
+    schedules: BufferProfile['schedules'],
+    timezone: string,
+    count: number,
+    from = Date.now()
+): ScheduleSlot[] => {
+    // Schedules from the API may spell days out or capitalize them; days that are not weekdays never match
+    const weekly = schedules.map(schedule => ({
+        days: schedule.days.map(normalizeDay).filter((day): day is string => day !== undefined),
+        times: schedule.times,
+    }));
+    // Every remaining day comes round within a week, so the loop below always ends
+    const hasSlots = weekly.some(schedule => schedule.days.length > 0 && schedule.times.length > 0);
+    if (count <= 0 || !hasSlots) {
+        return [];
+    }
+
+    const start = getZonedParts(from, timezone);
+    const slots: ScheduleSlot[] = [];
+    for (let offset = 0; slots.length < count; offset++) {
+        // Walk calendar days in the profile's timezone; Date.UTC normalizes month and year overflow
+        const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+        const day = WEEKDAYS[date.getUTCDay()];
+        const times = new Set<string>();
+        weekly
+            .filter(schedule => schedule.days.includes(day))
+            .forEach(schedule => schedule.times.forEach(time => times.add(time)));
+
+        const daySlots = Array.from(times)
+            .map(time => {
+                const [hour, minute] = parseTime(time);
+                const dueAt = zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, minute, timezone);
+                return { day, time, timezone, dueAt, scheduledAt: new Date(dueAt).toISOString() };
+            })
+            .filter(slot => slot.dueAt > from)
+            .sort((a, b) => a.dueAt - b.dueAt);
+
+        slots.push(...daySlots.slice(0, count - slots.length));
+    }
+    return slots;
+};
+
+// Like computeSlotTimes, but skips slots whose time is already taken (e.g. by buffered posts' `due_at`)
+export const computeFreeSlots = (
+    schedules: BufferProfile['schedules'],
+    timezone: string,
+    taken: number[],
+    count: number,
+    from = Date.now()
+): ScheduleSlot[] => {
+    const takenTimes = new Set(taken);
+    // Each taken time can hide at most one slot
+    return computeSlotTimes(schedules, timezone, count + takenTimes.size, from)
+        .filter(slot => !takenTimes.has(slot.dueAt))
+        .slice(0, count);
+};
@@ -0,0 +1,77 @@
+import { AuthTokens, TokenStore, TokenStoreKey } from './types';
+
+const storeKey = ({ clientId, account }: TokenStoreKey): string => `${clientId}:${account}`;
+
+// Keeps tokens for the lifetime of the process. Useful for tests and for sharing tokens between clients.
+export class MemoryTokenStore implements TokenStore {
+    private tokens = new Map<string, AuthTokens>();
+
+    public async load(key: TokenStoreKey): Promise<AuthTokens | undefined> {
+        const tokens = this.tokens.get(storeKey(key));
+        return tokens ? { ...tokens } : undefined;
+    }
+
+    public async save(key: TokenStoreKey, tokens: AuthTokens): Promise<void> {
+        this.tokens.set(storeKey(key), { ...tokens });
+    }
+
+    public async delete(key: TokenStoreKey): Promise<void> {
+        this.tokens.delete(storeKey(key));
+    }
+}
+
+// Persists tokens for every client/account pair in a single JSON file (Node.js only)
+export class FileTokenStore implements TokenStore {
+    private readonly filePath: string;
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    public async load(key: TokenStoreKey): Promise<AuthTokens | undefined> {
+        const entries = await this.readEntries();
+        return entries[storeKey(key)];
+    }
+
+    public async save(key: TokenStoreKey, tokens: AuthTokens): Promise<void> {
+        return this.update(entries => {
+            entries[storeKey(key)] = tokens;
+        });
+    }
+
+    public async delete(key: TokenStoreKey): Promise<void> {
+        return this.update(entries => {
+            delete entries[storeKey(key)];
+        });
+    }
+
+    private async readEntries(): Promise<Record<string, AuthTokens>> {
+        const { promises: fs } = await import('fs');
+
+        try {
+            return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return {};
+            }
+            throw error;
+        }
+    }
+
+    // Writes are serialized and go through a temp file + rename so readers never see a partial file
+    private update(mutate: (entries: Record<string, AuthTokens>) => void): Promise<void> {
+        const write = this.pendingWrite.then(async () => {
+            const { promises: fs } = await import('fs');
+            const entries = await this.readEntries();
+            mutate(entries);
+
+            const tempPath = `${this.filePath}.${process.pid}.tmp`;
+            await fs.writeFile(tempPath, JSON.stringify(entries, null, 2), { mode: 0o600 });
+            await fs.rename(tempPath, this.filePath);
+        });
+
+        this.pendingWrite = write.catch(() => undefined);
+        return write;
+    }
+}
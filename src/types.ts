@@ -13,11 +13,25 @@ export interface BufferProfile {
     formatted_username: string;
     avatar: string;
     timezone: string;
-    schedules: Array<{
-        days: string[];
-        times: string[];
-    }>;
+    schedules: PostingSchedule[];
     default: boolean;
+    // Paused profiles keep their queue but publish nothing
+    paused?: boolean;
+}
+
+// Posting times shared by a group of days, e.g. { days: ['mon', 'tue'], times: ['09:00', '17:00'] }
+export interface PostingSchedule {
+    days: string[];
+    // HH:mm in the profile's timezone
+    times: string[];
+}
+
+// Profile settings that can be changed through profiles.update
+export interface ProfileUpdateData {
+    // Only one profile can be the default; setting it clears the flag on the others
+    default?: boolean;
+    // IANA timezone used for the profile's posting schedule
+    timezone?: string;
 }
 
 // Post Analytics interface
@@ -138,10 +152,15 @@ export interface PlatformMetrics {
     impressions: number;
 }
 
+// One occurrence of a weekly posting slot: `day`/`time` in the profile's timezone, `dueAt`/`scheduledAt` the same moment in UTC
 export interface ScheduleSlot {
     day: string;
     time: string;
     timezone: string;
+    // Epoch ms
+    dueAt: number;
+    // ISO 8601, UTC
+    scheduledAt: string;
 }
 
 export interface EngagementTrend {
@@ -170,12 +189,29 @@ export interface BufferPost {
         comments: number;
         shares: number;
     };
-    media?: Array<{
-        id: string;
-        type: 'image' | 'video' | 'gif';
-        url: string;
-        thumbnail?: string;
-    }>;
+    media?: BufferPostMedia[];
+    // Follow-up posts published as replies after `text`, in order
+    thread?: BufferThreadSegment[];
+    // Ordered slides, set instead of `media` for carousels and albums
+    carousel?: BufferCarouselSlide[];
+    // Links as written and as sent, recorded by posts.create for click attribution
+    links?: PostLink[];
+}
+
+export interface BufferPostMedia {
+    id: string;
+    type: 'image' | 'video' | 'gif';
+    url: string;
+    thumbnail?: string;
+}
+
+export interface BufferThreadSegment {
+    text: string;
+    media?: BufferPostMedia[];
+}
+
+export interface BufferCarouselSlide extends BufferPostMedia {
+    caption?: string;
 }
 
 // Post List Options interface
@@ -187,20 +223,266 @@ export interface PostListOptions {
     status?: 'buffer' | 'sent' | 'failed' | 'draft';
 }
 
+export type PostAction = 'update' | 'delete' | 'shareNow' | 'moveToDrafts' | 'reschedule' | 'moveToTop';
+
+// A buffered post with its place in the queue; `due_at` is the computed slot time
+export interface QueuedPost extends BufferPost {
+    position: number;
+    // Undefined when the profile has no posting schedule
+    slot?: ScheduleSlot;
+}
+
+export interface ProfileQueue {
+    profileId: string;
+    timezone: string;
+    paused: boolean;
+    posts: QueuedPost[];
+}
+
+// One page of posts; `total` is only known when the API reports it
+export interface PostPage {
+    items: BufferPost[];
+    page: number;
+    hasMore: boolean;
+    total?: number;
+}
+
 // Create Post Data interface
 export interface CreatePostData {
     text: string;
     now?: boolean;
     scheduled_at?: string;
-    media?: Array<{
-        type: 'image' | 'video' | 'gif';
-        url: string;
-        alt_text?: string;
-    }>;
+    media?: PostMediaItem[];
+    // Replies published after `text`, in order (X only)
+    thread?: ThreadSegment[];
+    // Ordered slides with their own captions; replaces `media`
+    carousel?: CarouselSlide[];
     shorten?: boolean;
     attachment?: boolean;
+    // Reused across retries; generated when omitted so a replayed create never publishes twice
+    idempotencyKey?: string;
+    // `false` skips the platform checks posts.create runs before sending
+    validate?: boolean;
+    // Merged over the client's `links.utm`; `false` leaves links untagged
+    utm?: UtmTemplate | false;
+    // Value for the `{campaign}` placeholder in UTM templates
+    campaign?: string;
+}
+
+// Values may use the `{platform}`, `{profileId}` and `{campaign}` placeholders
+export interface UtmTemplate {
+    source?: string;
+    medium?: string;
+    campaign?: string;
+    term?: string;
+    content?: string;
+}
+
+export interface LinkContext {
+    platform: SocialPlatform;
+    profileId: string;
+    campaign?: string;
+}
+
+export interface LinkShortener {
+    shorten(url: string, context: LinkContext): Promise<string>;
+}
+
+export interface LinkProcessingOptions {
+    utm?: UtmTemplate;
+    // Used for every post unless it sets `shorten: false`
+    shortener?: LinkShortener;
+}
+
+export interface PostLink {
+    // As written in the post
+    original: string;
+    // With UTM parameters
+    tagged: string;
+    // Set when a shortener was used; this is the URL that was published
+    short?: string;
+}
+
+export type MediaType = 'image' | 'video' | 'gif';
+
+export interface PostMediaItem {
+    type: MediaType;
+    url: string;
+    alt_text?: string;
+    // Set when the item is an uploaded MediaHandle; used by validatePost
+    id?: string;
+    size?: number;
+    duration?: number;
+}
+
+export interface ThreadSegment {
+    text: string;
+    media?: PostMediaItem[];
+}
+
+export interface CarouselSlide extends PostMediaItem {
+    caption?: string;
+}
+
+export interface CarouselRules {
+    minSlides: number;
+    maxSlides: number;
+    // Whether images and videos can be combined
+    allowMixedMedia: boolean;
+    // Whether each slide keeps its own caption; otherwise captions are dropped with a warning
+    slideCaptions: boolean;
+}
+
+export interface PlatformRules {
+    maxLength: number;
+    // Every URL counts as this many characters (X wraps links in t.co); unset counts URLs literally
+    urlLength?: number;
+    maxMedia: number;
+    requiresMedia: boolean;
+    // Whether images, GIFs and videos can be combined in one post
+    allowMixedMedia: boolean;
+    maxVideos: number;
+    // Seconds
+    maxVideoDuration: number;
+    // Bytes
+    maxVideoSize: number;
+    maxHashtags: number;
+    recommendedHashtags: number;
+    maxMentions: number;
+    // Missing alt text on images and GIFs is an error, a warning or ignored
+    altText: 'required' | 'recommended' | 'optional';
+    // Most posts in one thread, including the first; 0 when threads are not supported
+    maxThreadLength: number;
+    // Unset when the platform has no carousels or albums
+    carousel?: CarouselRules;
+}
+
+export interface PostValidationResult {
+    valid: boolean;
+    errors: ValidationFieldError[];
+    warnings: ValidationFieldError[];
+}
+
+// File path (Node only), Buffer/Uint8Array, ArrayBuffer or a readable stream such as fs.createReadStream()
+export type MediaUploadInput = string | Uint8Array | ArrayBuffer | AsyncIterable<Uint8Array | string>;
+
+export interface MediaInfo {
+    type: MediaType;
+    mimeType: string;
+    // Undefined for streams, whose length is only known once they have been read
+    size?: number;
+    width?: number;
+    height?: number;
+    // Seconds, for videos
+    duration?: number;
+}
+
+// Opened upload input: ranges are read for detection, then the content is streamed in chunks
+export interface MediaSource {
+    filename?: string;
+    // Set for streams once chunks() has reached the end
+    size?: number;
+    // Up to `length` bytes at `position`; streams only buffer their first few MB
+    read(position: number, length: number): Promise<Uint8Array>;
+    chunks(chunkSize: number): AsyncIterable<Uint8Array>;
+    close(): Promise<void>;
+}
+
+export interface MediaUploadProgress {
+    uploadedBytes: number;
+    // Undefined until a stream of unknown length has been read to the end
+    totalBytes?: number;
+    // 0-100
+    percent?: number;
+    chunkIndex: number;
+    chunkCount?: number;
+}
+
+export interface MediaUploadOptions {
+    // Used for type detection when the content is not recognized; defaults to the file name for paths
+    filename?: string;
+    mimeType?: string;
+    altText?: string;
+    // Bytes per upload request. Default: 5MB
+    chunkSize?: number;
+    onProgress?: (progress: MediaUploadProgress) => void;
+}
+
+// Uploaded media; pass it in CreatePostData.media
+export interface MediaHandle {
+    id: string;
+    type: MediaType;
+    url: string;
+    alt_text?: string;
+    mime_type: string;
+    size: number;
+    width?: number;
+    height?: number;
+    duration?: number;
+    filename?: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// RRULE-style rule. `byDay` holds weekday names; monthly rules may prefix an ordinal ('3tue' = third Tuesday, '-1fri' = last Friday)
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    // Every n days, weeks or months (default 1)
+    interval?: number;
+    byDay?: string[];
+    // Monthly only; negative values count from the end of the month
+    byMonthDay?: number[];
+    // End conditions; without either the rule repeats indefinitely
+    count?: number;
+    until?: string | Date;
+}
+
+export interface RecurringPostDefinition {
+    profileId: string;
+    // Object form or an RRULE string such as 'FREQ=MONTHLY;BYDAY=3TU;COUNT=6'
+    rule: RecurrenceRule | string;
+    // Occurrences before this moment are never produced; it also anchors `interval`
+    start: string | Date;
+    // HH:mm wall-clock time in `timezone`
+    time: string;
+    // IANA timezone, defaults to the profile's
+    timezone?: string;
+    data: Omit<CreatePostData, 'scheduled_at' | 'now' | 'idempotencyKey'>;
+    // Occurrence n is published with variations[n % variations.length] as its text
+    variations?: string[];
+}
+
+export interface RecurringPost extends RecurringPostDefinition {
+    id: string;
+    rule: RecurrenceRule;
+    timezone: string;
+}
+
+export interface RecurrenceOccurrence {
+    seriesId: string;
+    // 0-based position in the series, counted from `start`
+    index: number;
+    // Epoch ms
+    dueAt: number;
+    scheduledAt: string;
+    text: string;
+}
+
+export interface EvergreenOptions {
+    // How many posts to re-queue (default 10)
+    top?: number;
+    // Minimum time between two shares of the same content (default 30 days)
+    minGapDays?: number;
+    // Analytics window the posts are picked from (default '90d')
+    timeRange?: TimeRange;
+    rankBy?: 'engagementRate' | 'clicks' | 'reach' | 'impressions';
+    // Posts with the same key are the same content, whatever their id. Default: text, ignoring case and spacing
+    contentKey?: (post: PostAnalytics) => string;
 }
 
+// Fields that can be changed on a queued or draft post
+export type UpdatePostData = Partial<Pick<CreatePostData, 'text' | 'scheduled_at' | 'media' | 'shorten' | 'attachment'>>;
+
 // API Response wrapper
 export interface APIResponse<T> {
     success: boolean;
@@ -208,6 +490,15 @@ export interface APIResponse<T> {
     message?: string;
     code?: string;
     error?: string;
+    // Present on list endpoints
+    pagination?: APIPagination;
+}
+
+export interface APIPagination {
+    page: number;
+    count: number;
+    total?: number;
+    has_more?: boolean;
 }
 
 // Authentication Tokens interface
@@ -216,25 +507,123 @@ export interface AuthTokens {
     token_type: string;
     refresh_token?: string;
     expires_in?: number;
+    // Absolute expiry (epoch ms) computed by the SDK so persisted tokens survive restarts
+    expires_at?: number;
     scope?: string;
 }
 
+// OAuth2 authorization request options
+export interface AuthorizationUrlOptions {
+    scopes?: string[];
+    state?: string;
+    // Generate a PKCE verifier/challenge pair (default true)
+    pkce?: boolean;
+    authorizeUrl?: string;
+    extraParams?: Record<string, string>;
+}
+
+// Everything needed to redirect the user and later verify the callback
+export interface AuthorizationRequest {
+    url: string;
+    state: string;
+    codeVerifier?: string;
+}
+
+export interface PkcePair {
+    codeVerifier: string;
+    codeChallenge: string;
+    codeChallengeMethod: 'S256';
+}
+
+// Result of a verified OAuth callback, ready to be passed as `bufferSDK.code`/`codeVerifier`
+export interface OAuthCallbackResult {
+    code: string;
+    state: string;
+    codeVerifier?: string;
+}
+
+// Identifies the tokens of one Buffer account for one OAuth client
+export interface TokenStoreKey {
+    clientId: string;
+    account: string;
+}
+
+// Persistence for OAuth tokens, so a restarted process can skip the code exchange
+export interface TokenStore {
+    load(key: TokenStoreKey): Promise<AuthTokens | undefined>;
+    save(key: TokenStoreKey, tokens: AuthTokens): Promise<void>;
+    delete(key: TokenStoreKey): Promise<void>;
+}
+
+// Every code the SDK produces. Server errors without their own code use `HTTP_<status>`.
+export type BufferErrorCode =
+    // Authentication
+    | 'TOKEN_EXCHANGE_FAILED'
+    | 'TOKEN_REFRESH_FAILED'
+    | 'OAUTH_STATE_MISMATCH'
+    | 'OAUTH_ACCESS_DENIED'
+    | 'OAUTH_CALLBACK_ERROR'
+    | 'OAUTH_CODE_MISSING'
+    | 'OAUTH_CONFIG_INVALID'
+    // Resources
+    | 'PROFILE_NOT_FOUND'
+    | 'PROFILE_UPDATE_FAILED'
+    | 'POST_NOT_FOUND'
+    | 'POST_CREATE_FAILED'
+    | 'POST_UPDATE_FAILED'
+    | 'INVALID_POST_STATUS'
+    | 'ANALYTICS_NOT_FOUND'
+    | 'POSTS_NOT_FOUND'
+    | 'SUMMARY_NOT_FOUND'
+    | 'INSIGHTS_NOT_FOUND'
+    | 'VALIDATION_ERROR'
+    | 'POST_VALIDATION_FAILED'
+    | 'MEDIA_UPLOAD_FAILED'
+    | 'LINK_SHORTEN_FAILED'
+    | 'MEDIA_NOT_FOUND'
+    | 'RECURRING_SERIES_NOT_FOUND'
+    // Rate limiting
+    | 'RATE_LIMIT_EXCEEDED'
+    | 'RATE_LIMIT_QUEUE_FULL'
+    | 'RATE_LIMIT_DROPPED'
+    | 'RATE_LIMIT_STORE_LOCKED'
+    // Transport
+    | 'NETWORK_ERROR'
+    | 'TIMEOUT'
+    | 'REQUEST_ABORTED'
+    | 'REQUEST_ERROR'
+    | 'CIRCUIT_OPEN'
+    | 'BATCH_ITEM_SKIPPED'
+    | `HTTP_${number}`;
+
+export interface BufferErrorOptions {
+    // The error this one was created from, e.g. the transport error
+    cause?: unknown;
+    // Response headers, when the error came from an HTTP response
+    headers?: Record<string, string>;
+}
+
 // Buffer API Error class
 export class BufferAPIError extends Error {
-    public code: string;
+    public code: BufferErrorCode;
     public statusCode?: number;
     public details?: any;
+    // Response headers, when the error came from an HTTP response
+    public headers?: Record<string, string>;
+    public cause?: unknown;
 
-    constructor(code: string, message: string, statusCode?: number, details?: any) {
+    constructor(code: BufferErrorCode, message: string, statusCode?: number, details?: any, options: BufferErrorOptions = {}) {
         super(message);
         this.name = 'BufferAPIError';
         this.code = code;
         this.statusCode = statusCode;
         this.details = details;
+        this.headers = options.headers;
+        this.cause = options.cause;
 
         // Maintains proper stack trace for where our error was thrown
         if (Error.captureStackTrace) {
-            Error.captureStackTrace(this, BufferAPIError);
+            Error.captureStackTrace(this, new.target);
         }
     }
 
@@ -249,6 +638,56 @@ export class BufferAPIError extends Error {
     }
 }
 
+// 401/403 responses and failed token exchanges
+export class AuthenticationError extends BufferAPIError {
+    public name = 'AuthenticationError';
+}
+
+export class RateLimitError extends BufferAPIError {
+    public name = 'RateLimitError';
+    // How long to wait before trying again, when known
+    public retryAfterMs?: number;
+
+    constructor(code: BufferErrorCode, message: string, statusCode?: number, details?: any, options: BufferErrorOptions = {}) {
+        super(code, message, statusCode, details, options);
+        this.retryAfterMs = details?.retryAfterMs;
+    }
+}
+
+export class NotFoundError extends BufferAPIError {
+    public name = 'NotFoundError';
+}
+
+export interface ValidationFieldError {
+    field: string;
+    message: string;
+    code?: string;
+}
+
+export class ValidationError extends BufferAPIError {
+    public name = 'ValidationError';
+    public fieldErrors: ValidationFieldError[];
+
+    constructor(code: BufferErrorCode, message: string, statusCode?: number, details?: any, options: BufferErrorOptions = {}) {
+        super(code, message, statusCode, details, options);
+        this.fieldErrors = details?.fieldErrors || [];
+    }
+
+    toJSON() {
+        return { ...super.toJSON(), fieldErrors: this.fieldErrors };
+    }
+}
+
+// No response was received: connection failures and timeouts
+export class NetworkError extends BufferAPIError {
+    public name = 'NetworkError';
+}
+
+// 5xx responses
+export class ServerError extends BufferAPIError {
+    public name = 'ServerError';
+}
+
 // Additional utility interfaces for the Buffer client
 export interface BufferClientStats {
     requestCount: number;
@@ -267,18 +706,39 @@ export interface WebhookEvent {
 
 export interface BatchOperationResult<T> {
     success: boolean;
+    // One entry per input item, in input order
     results: Array<{
         success: boolean;
         data?: T;
         error?: BufferAPIError;
+        // Not attempted because an earlier item failed with `stopOnError`
+        skipped?: boolean;
     }>;
     summary: {
         total: number;
         successful: number;
         failed: number;
+        skipped: number;
     };
 }
 
+export interface BatchOperationOptions {
+    // Items processed at the same time; every request still waits for the rate limiter. Default: 4
+    concurrency?: number;
+    // Stop starting new items after the first failure. Default: false
+    stopOnError?: boolean;
+}
+
+export interface BulkCreatePostItem {
+    profileId: string;
+    data: CreatePostData;
+}
+
+export interface BulkRescheduleItem {
+    postId: string;
+    scheduledAt: Date | string;
+}
+
 // Plugin System Types
 export interface TimeSlotRecommendation {
     dayOfWeek: number;
@@ -457,23 +917,167 @@ export interface HTTPClient {
     interceptors?: any;
 }
 
+// Per-request options understood by the built-in HTTP clients
+export interface HTTPRequestConfig {
+    params?: Record<string, string | number | boolean | undefined>;
+    headers?: Record<string, string>;
+    timeout?: number;
+    signal?: AbortSignal;
+}
+
+export interface HTTPResponse<T = any> {
+    data: T;
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+}
+
+export interface FetchHTTPClientOptions {
+    baseURL?: string;
+    timeout?: number;
+    headers?: Record<string, string>;
+    // Custom fetch implementation, e.g. for runtimes without a global fetch
+    fetch?: typeof fetch;
+}
+
+export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// Normalized request seen by every middleware
+export interface BufferRequest {
+    method: HTTPMethod;
+    path: string;
+    params?: Record<string, string | number | boolean | undefined>;
+    body?: any;
+    headers: Record<string, string>;
+    // 1 for the first try, incremented by the retry middleware
+    attempt: number;
+    // Free-form data shared between middlewares (e.g. tenant tags)
+    metadata: Record<string, any>;
+    // Per-call options passed to the API method
+    options: RequestOptions;
+    // API area the request belongs to; each group has its own circuit breaker
+    group?: EndpointGroup;
+}
+
+export interface BufferResponse<T = any> {
+    status: number;
+    data: T;
+    headers: Record<string, string>;
+    request: BufferRequest;
+}
+
+// none: plain exponential backoff, full: random delay in [0, backoff], equal: half the backoff plus a random half
+export type RetryJitter = 'none' | 'full' | 'equal';
+
+export interface RetryAttemptInfo {
+    error: BufferAPIError;
+    // The attempt that failed (1-based)
+    attempt: number;
+    delayMs: number;
+    request: BufferRequest;
+}
+
+export interface RetryPolicy {
+    // Total attempts including the first one
+    attempts: number;
+    // Base delay before the first retry
+    delay: number;
+    backoffFactor: number;
+    maxDelay: number;
+    jitter: RetryJitter;
+    // Retry POST requests even without an idempotency key. Unsafe: the server may process the request twice.
+    retryNonIdempotent: boolean;
+    // Replaces the default retryable-error check (network errors, timeouts, 429 and 5xx)
+    shouldRetry?: (error: BufferAPIError, attempt: number) => boolean;
+    onRetry?: (info: RetryAttemptInfo) => void;
+}
+
+export type EndpointGroup = 'profiles' | 'posts' | 'analytics' | 'media';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStateChangeEvent {
+    group: EndpointGroup;
+    from: CircuitState;
+    to: CircuitState;
+    // Consecutive failures that led to the change
+    failures: number;
+    timestamp: number;
+}
+
+export interface CircuitBreakerOptions {
+    // Consecutive failures (network errors, timeouts, 5xx) that open the circuit
+    failureThreshold: number;
+    // Time the circuit stays open before a single trial request is let through
+    cooldownMs: number;
+    onStateChange?: (event: CircuitStateChangeEvent) => void;
+}
+
+// Per-call options accepted by every API method
+export interface RequestOptions {
+    // Overrides the client's retry policy for this call; `false` disables retries
+    retry?: Partial<RetryPolicy> | false;
+    // Cancels the call, including retry backoff and rate limit waits, with REQUEST_ABORTED
+    signal?: AbortSignal;
+    // Per-attempt HTTP timeout in ms; overrides the client's `timeout`
+    timeout?: number;
+}
+
+export type BufferMiddlewareNext = (request: BufferRequest) => Promise<BufferResponse>;
+
+// Call `next` to continue the chain, or return a response without calling it to short-circuit
+export type BufferMiddleware = (request: BufferRequest, next: BufferMiddlewareNext) => Promise<BufferResponse>;
+
 // Configuration interface
 export interface BufferClientConfig {
     accessToken: string;
+    // Transport used for all requests. Defaults to a new axios instance owned by the client
+    httpClient?: HTTPClient;
     baseUrl?: string;
     timeout?: number;
     retryAttempts?: number;
     retryDelay?: number;
+    // Full retry policy; `retryAttempts`/`retryDelay` are shorthands for `attempts`/`delay`
+    retry?: Partial<RetryPolicy>;
+    // Per endpoint group breaker; `false` disables it
+    circuitBreaker?: Partial<CircuitBreakerOptions> | false;
+    // Check posts against platform rules before posts.create sends them (default true)
+    validatePosts?: boolean;
+    // UTM tagging and link shortening applied by posts.create
+    links?: LinkProcessingOptions;
     rateLimit?: {
         requests: number;
         window: number;
+        // What to do when no capacity is left (default 'queue')
+        strategy?: RateLimitStrategy;
+        // Reject queued requests that would wait longer than this (default 60000ms)
+        maxWaitMs?: number;
+        // Maximum number of requests waiting for capacity (default 1000)
+        maxQueueLength?: number;
+        // Shared budget for clients in several processes using the same account
+        store?: RateLimitStore;
+        // Store key, defaults to one key per client ID and account
+        key?: string;
     };
     bufferSDK?: {
         clientId: string;
         clientSecret: string;
         redirectUri: string;
         sdkMockMode: boolean;
+        scopes?: string[];
+        code?: string;
+        codeVerifier?: string;
     } | any
+    // Custom middlewares, run after authentication and before rate limiting
+    middleware?: BufferMiddleware[];
+    // Where tokens are loaded from and saved to between restarts
+    tokenStore?: TokenStore;
+    // Account name used as the token store key, defaults to 'default'
+    account?: string;
+    // Refresh the access token this many ms before it expires
+    tokenRefreshMargin?: number;
+    // Called whenever a new set of tokens is issued (initial exchange or refresh)
+    onTokenRefresh?: (tokens: AuthTokens) => void | Promise<void>;
 }
 
 export interface SDKRetryConfig {
@@ -482,6 +1086,60 @@ export interface SDKRetryConfig {
     backoffFactor: number;
 }
 
+// queue: wait for capacity, throw: fail immediately, drop-oldest: queue but evict the oldest waiter when the queue is full
+export type RateLimitStrategy = 'queue' | 'throw' | 'drop-oldest';
+
+export interface RateLimiterOptions {
+    requests: number;
+    window: number;
+    strategy: RateLimitStrategy;
+    maxWaitMs: number;
+    maxQueueLength: number;
+    store?: RateLimitStore;
+    key?: string;
+}
+
+export interface RateLimitStoreResult {
+    allowed: boolean;
+    // Requests counted in the current window, including this one when allowed
+    count: number;
+    // When the current window expires (epoch ms)
+    resetAt: number;
+}
+
+// Counter shared between processes. `consume` must atomically increment the counter for `key`
+// only if the result stays within `limit`, starting a new window of `ttlMs` when the old one expired.
+export interface RateLimitStore {
+    consume(key: string, limit: number, ttlMs: number): Promise<RateLimitStoreResult>;
+    reset(key: string): Promise<void>;
+}
+
+export interface RateLimiterStatus {
+    // Whole requests that can be sent right now
+    available: number;
+    queueDepth: number;
+    // Estimated wait for a request issued now
+    estimatedWaitMs: number;
+    // Remaining budget, the stricter of the local bucket and the last server-reported value
+    remaining: number;
+    // When the budget resets (epoch ms): server-reported, or when the local bucket is full again
+    resetAt: number;
+}
+
+// Rate limit information reported by the API in response headers
+export interface ServerRateLimitInfo {
+    remaining?: number;
+    resetAt?: number;
+    retryAfterMs?: number;
+}
+
+export interface FileRateLimitStoreOptions {
+    // How long to keep trying to take the lock before failing (default 5000ms)
+    lockTimeoutMs?: number;
+    // A lock file older than this is assumed to belong to a crashed process (default 10000ms)
+    staleLockMs?: number;
+}
+
 export interface SDKRateLimitState {
     requests: number;
     resetTime: number;
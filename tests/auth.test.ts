@@ -0,0 +1,59 @@
+import { createHash } from 'crypto';
+import {
+    BufferAPIError,
+    createAuthorizationRequest,
+    createPkcePair,
+    parseCallbackUrl,
+} from '../src';
+
+const bufferSDK = {
+    clientId: 'test-client-id',
+    redirectUri: 'http://localhost:3000/callback',
+    scopes: ['profiles:read', 'posts:write'],
+};
+
+describe('OAuth helpers', () => {
+    test('should build an authorization URL with state, scopes and PKCE challenge', async () => {
+        const request = await createAuthorizationRequest(bufferSDK);
+        const params = new URL(request.url).searchParams;
+
+        expect(params.get('response_type')).toBe('code');
+        expect(params.get('client_id')).toBe('test-client-id');
+        expect(params.get('redirect_uri')).toBe('http://localhost:3000/callback');
+        expect(params.get('scope')).toBe('profiles:read posts:write');
+        expect(params.get('state')).toBe(request.state);
+        expect(params.get('code_challenge_method')).toBe('S256');
+        expect(request.codeVerifier).toBeDefined();
+    });
+
+    test('should derive the code challenge from the verifier', async () => {
+        const { codeVerifier, codeChallenge } = await createPkcePair();
+        const expected = createHash('sha256').update(codeVerifier).digest('base64url');
+
+        expect(codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+        expect(codeChallenge).toBe(expected);
+    });
+
+    test('should parse a valid callback URL', async () => {
+        const request = await createAuthorizationRequest(bufferSDK);
+        const result = parseCallbackUrl(`http://localhost:3000/callback?code=abc&state=${request.state}`, request);
+
+        expect(result).toEqual({ code: 'abc', state: request.state, codeVerifier: request.codeVerifier });
+    });
+
+    test('should reject a callback with a mismatched state', async () => {
+        const request = await createAuthorizationRequest(bufferSDK, { pkce: false });
+
+        expect(() => parseCallbackUrl('/callback?code=abc&state=forged', request))
+            .toThrow(expect.objectContaining({ code: 'OAUTH_STATE_MISMATCH' }));
+    });
+
+    test('should surface a denied authorization', async () => {
+        const request = await createAuthorizationRequest(bufferSDK);
+
+        const parse = () => parseCallbackUrl(`/callback?error=access_denied&state=${request.state}`, request);
+
+        expect(parse).toThrow(BufferAPIError);
+        expect(parse).toThrow(expect.objectContaining({ code: 'OAUTH_ACCESS_DENIED' }));
+    });
+});
@@ -0,0 +1,60 @@
+import { runBatch } from '../src/batch';
+import { BufferAPIError, NotFoundError } from '../src/types';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('runBatch', () => {
+    test('should keep input order and limit concurrency', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+
+        const result = await runBatch([30, 10, 20, 5, 15], async (ms, index) => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await delay(ms);
+            inFlight--;
+            return index;
+        }, { concurrency: 2 });
+
+        expect(maxInFlight).toBe(2);
+        expect(result.results.map(item => item.data)).toEqual([0, 1, 2, 3, 4]);
+        expect(result).toMatchObject({ success: true, summary: { total: 5, successful: 5, failed: 0, skipped: 0 } });
+    });
+
+    test('should report failures per item as BufferAPIErrors', async () => {
+        const result = await runBatch(['a', 'missing', 'c'], async id => {
+            if (id === 'missing') {
+                throw new NotFoundError('POST_NOT_FOUND', 'Post missing not found', 404);
+            }
+            if (id === 'c') {
+                throw new Error('boom');
+            }
+            return id;
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.results[1].error).toBeInstanceOf(NotFoundError);
+        expect(result.results[2].error).toBeInstanceOf(BufferAPIError);
+        expect(result.summary).toEqual({ total: 3, successful: 1, failed: 2, skipped: 0 });
+    });
+
+    test('should skip items that had not started when stopOnError trips', async () => {
+        const started: number[] = [];
+
+        const result = await runBatch([1, 2, 3, 4], async item => {
+            started.push(item);
+            if (item === 2) {
+                throw new Error('failed');
+            }
+            return item;
+        }, { concurrency: 1, stopOnError: true });
+
+        expect(started).toEqual([1, 2]);
+        expect(result.results[2]).toMatchObject({ success: false, skipped: true, error: { code: 'BATCH_ITEM_SKIPPED' } });
+        expect(result.summary).toEqual({ total: 4, successful: 1, failed: 1, skipped: 2 });
+    });
+
+    test('should reject an invalid concurrency', async () => {
+        await expect(runBatch([1], async item => item, { concurrency: 0 })).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+});
@@ -0,0 +1,70 @@
+import { CircuitBreaker, isCircuitFailure } from '../src/circuit-breaker';
+import { BufferAPIError, CircuitStateChangeEvent } from '../src/types';
+
+describe('CircuitBreaker', () => {
+    let now: number;
+    let events: CircuitStateChangeEvent[];
+    let breaker: CircuitBreaker;
+
+    beforeEach(() => {
+        now = 1_000_000;
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        events = [];
+        breaker = new CircuitBreaker('posts', { failureThreshold: 2, cooldownMs: 1000 }, event => events.push(event));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should open after consecutive failures and fail fast', () => {
+        breaker.recordFailure();
+        breaker.recordSuccess();
+        breaker.recordFailure();
+        expect(breaker.getState()).toBe('closed');
+
+        breaker.recordFailure();
+
+        expect(breaker.getState()).toBe('open');
+        expect(() => breaker.beforeRequest()).toThrow(expect.objectContaining({
+            code: 'CIRCUIT_OPEN',
+            details: { group: 'posts', retryAfterMs: 1000 },
+        }));
+        expect(events).toEqual([expect.objectContaining({ group: 'posts', from: 'closed', to: 'open', failures: 2 })]);
+    });
+
+    test('should let a single trial through after the cooldown', () => {
+        breaker.recordFailure();
+        breaker.recordFailure();
+        now += 1000;
+
+        expect(breaker.getState()).toBe('half-open');
+        expect(() => breaker.beforeRequest()).not.toThrow();
+        expect(() => breaker.beforeRequest()).toThrow(BufferAPIError);
+
+        breaker.recordSuccess();
+
+        expect(breaker.getState()).toBe('closed');
+        expect(events.map(event => event.to)).toEqual(['open', 'half-open', 'closed']);
+    });
+
+    test('should re-open when the trial request fails', () => {
+        breaker.recordFailure();
+        breaker.recordFailure();
+        now += 1000;
+        breaker.beforeRequest();
+
+        breaker.recordFailure();
+
+        expect(breaker.getState()).toBe('open');
+        now += 999;
+        expect(breaker.getState()).toBe('open');
+    });
+
+    test('should only count API degradation as failures', () => {
+        expect(isCircuitFailure(new BufferAPIError('TIMEOUT', 'timed out'))).toBe(true);
+        expect(isCircuitFailure(new BufferAPIError('HTTP_503', 'unavailable', 503))).toBe(true);
+        expect(isCircuitFailure(new BufferAPIError('HTTP_404', 'not found', 404))).toBe(false);
+        expect(isCircuitFailure(new BufferAPIError('HTTP_429', 'slow down', 429))).toBe(false);
+    });
+});
@@ -1,4 +1,4 @@
-import { BufferClient, createBufferClient, BufferAPIError } from '../src';
+import { BufferClient, createBufferClient, BufferAPIError, MemoryTokenStore, NotFoundError, ValidationError, isBufferError } from '../src';
 import axios from 'axios';
 import { createMockAxiosResponse, createMockProfile, createMockPost } from './setup';
 
@@ -9,11 +9,6 @@ describe('BufferClient', () => {
     let client: BufferClient;
 
     beforeEach(async () => {
-        // Mock the token exchange
-        mockedAxios.post.mockResolvedValueOnce(
-            createMockAxiosResponse({ access_token: 'mock-token' })
-        );
-
         client = await createBufferClient({
             accessToken: 'test-token',
             bufferSDK: {
@@ -52,6 +47,54 @@ describe('BufferClient', () => {
         });
     });
 
+    describe('Profile Settings', () => {
+        test('should edit posting schedules slot by slot', async () => {
+            await client.profiles.schedules.set('profile_linkedin_002', [{ days: ['mon', 'wed'], times: ['08:00'] }]);
+
+            await client.profiles.schedules.addSlot('profile_linkedin_002', 'wed', '12:30');
+            const schedules = await client.profiles.schedules.removeSlot('profile_linkedin_002', 'mon', '08:00');
+
+            expect(schedules).toEqual([{ days: ['wed'], times: ['08:00', '12:30'] }]);
+            await expect(client.profiles.get('profile_linkedin_002')).resolves.toMatchObject({ schedules });
+        });
+
+        test('should reject invalid schedules', async () => {
+            await expect(client.profiles.schedules.set('profile_x_001', [{ days: ['mon'], times: ['9am'] }]))
+                .rejects.toBeInstanceOf(ValidationError);
+            await expect(client.profiles.schedules.addSlot('profile_x_001', 'mon', '09:00'))
+                .rejects.toThrow('Duplicate slot mon 09:00');
+        });
+
+        test('should switch the default profile and validate the timezone', async () => {
+            const updated = await client.profiles.update('profile_facebook_003', { default: true, timezone: 'Europe/Berlin' });
+            const profiles = await client.profiles.list();
+
+            expect(updated).toMatchObject({ default: true, timezone: 'Europe/Berlin' });
+            expect(profiles.filter(profile => profile.default).map(profile => profile.id)).toEqual(['profile_facebook_003']);
+            await expect(client.profiles.update('profile_x_001', { timezone: 'Pacific/Nowhere' }))
+                .rejects.toMatchObject({ code: 'VALIDATION_ERROR', fieldErrors: [expect.objectContaining({ field: 'timezone' })] });
+        });
+
+        test('should send canonical schedules to the API', async () => {
+            const realClient = await createBufferClient({
+                accessToken: 'test-token',
+                bufferSDK: {
+                    clientId: 'test-client-id',
+                    clientSecret: 'test-client-secret',
+                    redirectUri: 'http://localhost:3000/callback',
+                    sdkMockMode: false,
+                },
+            });
+            const schedules = [{ days: ['mon'], times: ['09:00'] }];
+            mockedAxios.put.mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: schedules }));
+
+            await expect(realClient.profiles.schedules.set('profile_123', [{ days: ['Monday'], times: ['9:00'] }]))
+                .resolves.toEqual(schedules);
+            expect(mockedAxios.put.mock.calls[0][0]).toContain('/profiles/profile_123/schedules.json');
+            expect(mockedAxios.put.mock.calls[0][1]).toEqual({ schedules });
+        });
+    });
+
     describe('Posts API', () => {
         test('should list posts for a profile', async () => {
             const profiles = await client.profiles.list();
@@ -83,6 +126,98 @@ describe('BufferClient', () => {
             expect(post).toHaveProperty('profile_id', profileId);
         });
 
+        test('should reject posts that break platform rules before sending them', async () => {
+            const error = await client.posts.create('profile_instagram_004', { text: 'x'.repeat(2300) }).catch(err => err);
+
+            expect(error).toBeInstanceOf(ValidationError);
+            expect(error).toMatchObject({ code: 'POST_VALIDATION_FAILED', statusCode: 422, details: { platform: 'instagram' } });
+            expect(error.fieldErrors.map((item: any) => item.code)).toEqual(['TEXT_TOO_LONG', 'MEDIA_REQUIRED']);
+            await expect(client.posts.create('profile_instagram_004', { text: 'Text only', validate: false })).resolves.toHaveProperty('id');
+        });
+
+        test('should create threads and carousels and show their structure when listed', async () => {
+            const thread = await client.posts.create('profile_x_001', { text: 'A thread 🧵', thread: [{ text: 'Part two' }, { text: 'Part three' }] });
+            const carousel = await client.posts.create('profile_facebook_003', {
+                text: 'Launch album',
+                carousel: [
+                    { type: 'image', url: 'https://example.com/1.png', caption: 'Front' },
+                    { type: 'image', url: 'https://example.com/2.png', caption: 'Back' },
+                ],
+            });
+
+            expect(thread.thread?.map(segment => segment.text)).toEqual(['Part two', 'Part three']);
+            expect(carousel.carousel).toEqual([
+                { id: `${carousel.id}_slide_0`, type: 'image', url: 'https://example.com/1.png', caption: 'Front' },
+                { id: `${carousel.id}_slide_1`, type: 'image', url: 'https://example.com/2.png', caption: 'Back' },
+            ]);
+            const listed = await client.posts.list('profile_instagram_004', { count: 45 });
+            expect(listed.some(post => (post.carousel?.length || 0) > 1)).toBe(true);
+        });
+
+        test('should tag links per platform and record original and rewritten URLs', async () => {
+            const linkClient = await createBufferClient({
+                accessToken: 'test-token',
+                bufferSDK: { clientId: 'test-client-id', clientSecret: 'test-client-secret', redirectUri: 'http://localhost:3000/callback', sdkMockMode: true },
+                links: {
+                    utm: { source: '{platform}', medium: 'social', campaign: '{campaign}' },
+                    shortener: { shorten: async url => `https://buff.ly/${url.includes('utm_source=x') ? 'x1' : 'other'}` },
+                },
+            });
+
+            const post = await linkClient.posts.create('profile_x_001', { text: 'New pricing: https://example.com/pricing', campaign: 'launch' });
+            const untagged = await linkClient.posts.create('profile_x_001', { text: 'https://example.com', utm: false, shorten: false });
+
+            expect(post.text).toBe('New pricing: https://buff.ly/x1');
+            expect(post.links).toEqual([{
+                original: 'https://example.com/pricing',
+                tagged: 'https://example.com/pricing?utm_source=x&utm_medium=social&utm_campaign=launch',
+                short: 'https://buff.ly/x1',
+            }]);
+            expect(untagged.text).toBe('https://example.com');
+            expect(untagged.links).toBeUndefined();
+            await expect(linkClient.posts.get(post.id)).resolves.toMatchObject({ links: post.links });
+        });
+
+        test('should send the link records with the create request', async () => {
+            const realClient = await createBufferClient({
+                accessToken: 'test-token',
+                bufferSDK: { clientId: 'test-client-id', clientSecret: 'test-client-secret', redirectUri: 'http://localhost:3000/callback', sdkMockMode: false },
+                links: { utm: { source: '{platform}' } },
+            });
+            mockedAxios.get.mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: createMockProfile({ id: 'profile_123', service: 'x' }) }));
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: createMockPost() }));
+
+            await realClient.posts.create('profile_123', { text: 'Read https://example.com', validate: false });
+
+            expect(mockedAxios.post.mock.calls[0][1]).toEqual({
+                text: 'Read https://example.com/?utm_source=x',
+                links: [{ original: 'https://example.com', tagged: 'https://example.com/?utm_source=x' }],
+            });
+        });
+
+        test('should return the original post for a repeated idempotency key', async () => {
+            const postData = { text: 'Launch day', idempotencyKey: 'launch-2024' };
+
+            const first = await client.posts.create('profile_x_001', postData);
+            const second = await client.posts.create('profile_x_001', postData);
+            const other = await client.posts.create('profile_x_001', { text: 'Launch day' });
+
+            expect(second).toEqual(first);
+            expect(other.id).not.toBe(first.id);
+            await expect(client.posts.get(first.id)).resolves.toEqual(first);
+        });
+
+        test('should create a new post when the key of a deleted post is reused', async () => {
+            const first = await client.posts.create('profile_x_001', { text: 'Launch day', idempotencyKey: 'k1' });
+            await client.posts.delete(first.id);
+
+            const second = await client.posts.create('profile_x_001', { text: 'Launch day', idempotencyKey: 'k1' });
+
+            expect(second).toBeDefined();
+            expect(second.id).not.toBe(first.id);
+            await expect(client.posts.get(second.id)).resolves.toEqual(second);
+        });
+
         test('should get specific post', async () => {
             const profiles = await client.profiles.list();
             const profileId = profiles[0].id;
@@ -108,6 +243,559 @@ describe('BufferClient', () => {
         });
     });
 
+    describe('Post Lifecycle', () => {
+        const future = () => new Date(Date.now() + 86400000).toISOString();
+
+        test('should edit, draft, reschedule and share a queued post', async () => {
+            const post = await client.posts.create('profile_x_001', { text: 'Draft me', scheduled_at: future() });
+
+            const edited = await client.posts.update(post.id, { text: 'Edited text' });
+            const drafted = await client.posts.moveToDrafts(post.id);
+            const scheduledAt = future();
+            const rescheduled = await client.posts.reschedule(post.id, scheduledAt);
+            const shared = await client.posts.shareNow(post.id);
+
+            expect(edited).toMatchObject({ text: 'Edited text', status: 'buffer' });
+            expect(drafted).toMatchObject({ status: 'draft', due_at: undefined });
+            expect(rescheduled).toMatchObject({ status: 'buffer', due_at: Date.parse(scheduledAt) });
+            expect(shared.status).toBe('sent');
+            await expect(client.posts.get(post.id)).resolves.toMatchObject({ text: 'Edited text', status: 'sent' });
+        });
+
+        test('should reject actions that the post status does not allow', async () => {
+            const { items } = await client.posts.listPage('profile_x_001', { status: 'sent', count: 1 });
+
+            const error = await client.posts.update(items[0].id, { text: 'Too late' }).catch(err => err);
+
+            expect(error).toBeInstanceOf(ValidationError);
+            expect(error).toMatchObject({ code: 'INVALID_POST_STATUS', statusCode: 409, details: { status: 'sent', action: 'update' } });
+            await expect(client.posts.moveToDrafts(items[0].id)).rejects.toMatchObject({ code: 'INVALID_POST_STATUS' });
+        });
+
+        test('should delete a post', async () => {
+            const post = await client.posts.create('profile_x_001', { text: 'Delete me' });
+
+            await expect(client.posts.delete(post.id)).resolves.toMatchObject({ id: post.id });
+            await expect(client.posts.get(post.id)).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+        });
+
+        test('should validate the new schedule time', async () => {
+            const post = await client.posts.create('profile_x_001', { text: 'Later' });
+
+            const error = await client.posts.reschedule(post.id, '2020-01-01T00:00:00Z').catch(err => err);
+
+            expect(error).toBeInstanceOf(ValidationError);
+            expect(error.fieldErrors).toEqual([{ field: 'scheduled_at', message: 'scheduled_at must be in the future' }]);
+        });
+
+        test('should check the current status before sending the change', async () => {
+            const realClient = await createBufferClient({
+                accessToken: 'test-token',
+                bufferSDK: {
+                    clientId: 'test-client-id',
+                    clientSecret: 'test-client-secret',
+                    redirectUri: 'http://localhost:3000/callback',
+                    sdkMockMode: false,
+                },
+            });
+            mockedAxios.get
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: createMockPost({ id: 'post_1', status: 'buffer' }) }))
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: createMockPost({ id: 'post_2', status: 'sent' }) }));
+            mockedAxios.put.mockResolvedValueOnce(createMockAxiosResponse({
+                success: true,
+                data: createMockPost({ id: 'post_1', text: 'Updated' }),
+            }));
+
+            await expect(realClient.posts.update('post_1', { text: 'Updated' })).resolves.toHaveProperty('text', 'Updated');
+            expect(mockedAxios.put.mock.calls[0][1]).toEqual({ text: 'Updated' });
+
+            await expect(realClient.posts.update('post_2', { text: 'Updated' })).rejects.toMatchObject({ code: 'INVALID_POST_STATUS' });
+            expect(mockedAxios.put).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Bulk Operations', () => {
+        test('should create the same announcement on many profiles', async () => {
+            const profiles = await client.profiles.list();
+
+            const result = await client.posts.createMany(
+                profiles.map(profile => ({
+                    profileId: profile.id,
+                    data: { text: 'We are live!', media: [{ type: 'image' as const, url: 'https://example.com/launch.png', alt_text: 'Launch banner' }] },
+                })),
+                { concurrency: 2 }
+            );
+
+            expect(result.success).toBe(true);
+            expect(result.summary).toEqual({ total: profiles.length, successful: profiles.length, failed: 0, skipped: 0 });
+            expect(result.results.map(item => item.data?.profile_id)).toEqual(profiles.map(profile => profile.id));
+        });
+
+        test('should delete and reschedule in bulk with per-item errors', async () => {
+            const created = await client.posts.create('profile_x_001', { text: 'Bulk' });
+            const { items } = await client.posts.listPage('profile_x_001', { status: 'sent', count: 1 });
+            const scheduledAt = new Date(Date.now() + 86400000);
+
+            const rescheduled = await client.posts.rescheduleMany([{ postId: created.id, scheduledAt }]);
+            const deleted = await client.posts.deleteMany([created.id, items[0].id]);
+
+            expect(rescheduled.results[0].data?.due_at).toBe(scheduledAt.getTime());
+            expect(deleted.summary).toEqual({ total: 2, successful: 1, failed: 1, skipped: 0 });
+            expect(deleted.results[1].error).toMatchObject({ code: 'INVALID_POST_STATUS' });
+        });
+
+        test('should send each create through the rate limiter', async () => {
+            const limitedClient = await createBufferClient({
+                accessToken: 'test-token',
+                rateLimit: { requests: 2, window: 60000, strategy: 'throw' },
+                validatePosts: false,
+                bufferSDK: {
+                    clientId: 'test-client-id',
+                    clientSecret: 'test-client-secret',
+                    redirectUri: 'http://localhost:3000/callback',
+                    sdkMockMode: false,
+                },
+            });
+            mockedAxios.post
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: createMockPost({ id: 'post_1' }) }))
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: createMockPost({ id: 'post_2' }) }));
+
+            const result = await limitedClient.posts.createMany(
+                ['profile_1', 'profile_2', 'profile_3'].map(profileId => ({ profileId, data: { text: 'Launch' } })),
+                { concurrency: 1 }
+            );
+
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+            expect(result.summary).toMatchObject({ successful: 2, failed: 1 });
+            expect(result.results[2].error).toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+        });
+    });
+
+    describe('Media API', () => {
+        // 2x1 PNG: signature plus the IHDR chunk that carries the dimensions
+        const png = Buffer.concat([
+            Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]),
+            Buffer.from('IHDR'),
+            Buffer.from([0, 0, 0, 2, 0, 0, 0, 1, 8, 6, 0, 0, 0]),
+            Buffer.alloc(20),
+        ]);
+
+        test('should upload in chunks with progress and attach the handle to a post', async () => {
+            const progress: number[] = [];
+
+            const media = await client.media.upload(png, {
+                chunkSize: 16,
+                altText: 'Logo',
+                onProgress: event => progress.push(event.percent),
+            });
+            const post = await client.posts.create('profile_x_001', { text: 'With image', media: [media] });
+
+            expect(media).toMatchObject({ type: 'image', mime_type: 'image/png', size: png.length, width: 2, height: 1, alt_text: 'Logo' });
+            expect(progress).toEqual([33, 65, 98, 100]);
+            await expect(client.media.get(media.id)).resolves.toEqual(media);
+            expect(post.media).toEqual([{ id: media.id, type: 'image', url: media.url }]);
+        });
+
+        test('should accept a readable stream', async () => {
+            const { Readable } = await import('stream');
+
+            const media = await client.media.upload(Readable.from([png.subarray(0, 10), png.subarray(10)]), { filename: 'logo.png' });
+
+            expect(media).toMatchObject({ size: png.length, filename: 'logo.png', width: 2 });
+        });
+
+        test('should give concurrent mock uploads their own ids', async () => {
+            const [first, second] = await Promise.all([
+                client.media.upload(png, { filename: 'a.png' }),
+                client.media.upload(png, { filename: 'b.png' }),
+            ]);
+
+            expect(first.id).not.toBe(second.id);
+            await expect(client.media.get(first.id)).resolves.toMatchObject({ filename: 'a.png' });
+            await expect(client.media.get(second.id)).resolves.toMatchObject({ filename: 'b.png' });
+        });
+
+        test('should reject unsupported files before uploading', async () => {
+            await expect(client.media.upload(Buffer.from('plain text'), { filename: 'notes.txt' }))
+                .rejects.toBeInstanceOf(ValidationError);
+            await expect(client.media.get('media_missing')).rejects.toBeInstanceOf(NotFoundError);
+        });
+
+        test('should send init, byte-range chunks and complete requests', async () => {
+            const realClient = await createBufferClient({
+                accessToken: 'test-token',
+                bufferSDK: {
+                    clientId: 'test-client-id',
+                    clientSecret: 'test-client-secret',
+                    redirectUri: 'http://localhost:3000/callback',
+                    sdkMockMode: false,
+                },
+            });
+            const handle = { id: 'media_1', type: 'image', url: 'https://cdn.example.com/media_1.png', mime_type: 'image/png', size: png.length };
+            mockedAxios.post
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: { upload_id: 'upload_1' } }))
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: handle }));
+            mockedAxios.put.mockResolvedValue(createMockAxiosResponse({ success: true }));
+
+            const media = await realClient.media.upload(png, { chunkSize: 32 });
+
+            expect(media).toEqual(handle);
+            expect(mockedAxios.post.mock.calls[0][0]).toContain('/media/uploads.json');
+            expect(mockedAxios.post.mock.calls[0][1]).toMatchObject({ mime_type: 'image/png', size: png.length, width: 2, height: 1 });
+            expect(mockedAxios.put).toHaveBeenCalledTimes(2);
+            expect(mockedAxios.put.mock.calls[1][0]).toContain('/media/uploads/upload_1/chunks/1.json');
+            expect(mockedAxios.put.mock.calls[1][2]?.headers).toMatchObject({
+                'Content-Type': 'application/octet-stream',
+                'Content-Range': `bytes 32-${png.length - 1}/${png.length}`,
+            });
+            expect(mockedAxios.post.mock.calls[1][0]).toContain('/media/uploads/upload_1/complete.json');
+        });
+
+        test('should send each chunk in a buffer of its own', async () => {
+            const { Readable } = await import('stream');
+            const realClient = await createBufferClient({
+                accessToken: 'test-token',
+                bufferSDK: {
+                    clientId: 'test-client-id',
+                    clientSecret: 'test-client-secret',
+                    redirectUri: 'http://localhost:3000/callback',
+                    sdkMockMode: false,
+                },
+            });
+            const started = createMockAxiosResponse({ success: true, data: { upload_id: 'upload_3' } });
+            const completed = createMockAxiosResponse({ success: true, data: { id: 'media_3' } });
+            mockedAxios.post
+                .mockResolvedValueOnce(started)
+                .mockResolvedValueOnce(completed)
+                .mockResolvedValueOnce(started)
+                .mockResolvedValueOnce(completed);
+            mockedAxios.put.mockResolvedValue(createMockAxiosResponse({ success: true }));
+            // What axios puts on the wire for a typed array
+            const sentBytes = () => mockedAxios.put.mock.calls.map(([, body]) => Array.from(new Uint8Array((body as Uint8Array).buffer)));
+            const expected = [png.subarray(0, 16), png.subarray(16, 32), png.subarray(32, 48), png.subarray(48)].map(chunk => Array.from(chunk));
+
+            await realClient.media.upload(new Uint8Array(png), { chunkSize: 16 });
+            expect(sentBytes()).toEqual(expected);
+
+            mockedAxios.put.mockClear();
+            await realClient.media.upload(Readable.from([png.subarray(0, 20), png.subarray(20)]), { chunkSize: 16 });
+            expect(sentBytes()).toEqual(expected);
+        });
+
+        test('should stream chunks of unknown total length and send the size with the last one', async () => {
+            const { Readable } = await import('stream');
+            const realClient = await createBufferClient({
+                accessToken: 'test-token',
+                bufferSDK: {
+                    clientId: 'test-client-id',
+                    clientSecret: 'test-client-secret',
+                    redirectUri: 'http://localhost:3000/callback',
+                    sdkMockMode: false,
+                },
+            });
+            mockedAxios.post
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: { upload_id: 'upload_2' } }))
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: { id: 'media_2' } }));
+            mockedAxios.put.mockResolvedValue(createMockAxiosResponse({ success: true }));
+            const progress: Array<number | undefined> = [];
+
+            await realClient.media.upload(Readable.from([png.subarray(0, 20), png.subarray(20)]), {
+                chunkSize: 16,
+                onProgress: event => progress.push(event.totalBytes),
+            });
+
+            expect(mockedAxios.post.mock.calls[0][1].size).toBeUndefined();
+            expect(mockedAxios.put.mock.calls.map(call => call[2]?.headers?.['Content-Range'])).toEqual([
+                'bytes 0-15/*',
+                'bytes 16-31/*',
+                'bytes 32-47/*',
+                `bytes 48-48/${png.length}`,
+            ]);
+            expect(progress).toEqual([undefined, undefined, undefined, png.length]);
+        });
+    });
+
+    describe('Recurring Posts', () => {
+        const day = 86400000;
+
+        test('should materialize occurrences with text variations only once', async () => {
+            const series = await client.recurring.add({
+                profileId: 'profile_x_001',
+                rule: 'FREQ=DAILY;COUNT=3',
+                start: new Date(Date.now() + day),
+                time: '10:00',
+                data: { text: 'Tip of the day' },
+                variations: ['Tip A', 'Tip B'],
+            });
+            const to = new Date(Date.now() + 10 * day);
+
+            const first = await client.recurring.materialize(new Date(), to);
+            const second = await client.recurring.materialize(new Date(), to);
+
+            expect(series).toMatchObject({ timezone: 'America/Los_Angeles', rule: { frequency: 'daily', count: 3 } });
+            expect(first.summary).toMatchObject({ total: 3, successful: 3 });
+            expect(first.results.map(result => result.data?.text)).toEqual(['Tip A', 'Tip B', 'Tip A']);
+            expect(first.results.map(result => result.data?.due_at)).toEqual(
+                client.recurring.preview(series.id, new Date(), to).map(occurrence => occurrence.dueAt)
+            );
+            expect(second.summary.total).toBe(0);
+            await expect(client.recurring.add({ ...series, rule: 'FREQ=HOURLY' })).rejects.toBeInstanceOf(ValidationError);
+        });
+
+        test('should recycle the best posts into free slots after the minimum gap', async () => {
+            const publishedAt = new Date(Date.now() - 2 * day).toISOString();
+            const analyticsRow = (postId: string, profileId: string, engagementRate: number, text: string) => ({
+                postId, profileId, service: 'x' as const, publishedAt, text, engagementRate, reach: 0, impressions: 0,
+                metrics: { likes: 0, comments: 0, shares: 0, clicks: 0 },
+            });
+            jest.spyOn(client.analytics, 'posts').mockResolvedValue([
+                analyticsRow('old_2', 'profile_x_001', 0.05, 'Evergreen two'),
+                analyticsRow('old_1', 'profile_x_001', 0.09, 'Evergreen one'),
+                analyticsRow('old_3', 'profile_linkedin_002', 0.2, 'Other profile'),
+            ]);
+
+            const first = await client.recurring.recycle('profile_x_001', { top: 5, minGapDays: 7 });
+            const again = await client.recurring.recycle('profile_x_001', { top: 5, minGapDays: 7 });
+
+            expect(first.results.map(result => result.data?.text)).toEqual(['Evergreen one', 'Evergreen two']);
+            const dueTimes = first.results.map(result => result.data!.due_at!);
+            expect(new Set(dueTimes).size).toBe(2);
+            dueTimes.forEach(dueAt => expect(dueAt).toBeGreaterThanOrEqual(Date.parse(publishedAt) + 7 * day));
+            expect(again.summary.total).toBe(0);
+        });
+
+        test('should recycle a post with its media', async () => {
+            const original = await client.posts.create('profile_instagram_004', {
+                text: 'Behind the scenes',
+                media: [{ type: 'image', url: 'https://example.com/studio.jpg', alt_text: 'Studio' }],
+            });
+            jest.spyOn(client.analytics, 'posts').mockResolvedValue([{
+                postId: original.id, profileId: 'profile_instagram_004', service: 'instagram', text: original.text,
+                publishedAt: new Date(Date.now() - 60 * day).toISOString(), engagementRate: 0.1, reach: 0, impressions: 0,
+                metrics: { likes: 0, comments: 0, shares: 0, clicks: 0 },
+            }]);
+
+            const result = await client.recurring.recycle('profile_instagram_004', { minGapDays: 7 });
+
+            expect(result.summary).toMatchObject({ successful: 1, failed: 0 });
+            expect(result.results[0].data?.media).toEqual([expect.objectContaining({ type: 'image', url: 'https://example.com/studio.jpg' })]);
+        });
+
+        test('should recycle each text once and only into slots the queue leaves free', async () => {
+            const publishedAt = new Date(Date.now() - 60 * day).toISOString();
+            const analyticsRow = (postId: string, engagementRate: number, text: string) => ({
+                postId, profileId: 'profile_x_001', service: 'x' as const, publishedAt, text, engagementRate, reach: 0, impressions: 0,
+                metrics: { likes: 0, comments: 0, shares: 0, clicks: 0 },
+            });
+            jest.spyOn(client.analytics, 'posts').mockResolvedValue([
+                analyticsRow('orig', 0.09, 'Evergreen classic'),
+                analyticsRow('copy', 0.08, 'Evergreen  classic'),
+            ]);
+            const queued = (await client.queue.get('profile_x_001')).posts.map(post => post.slot?.dueAt);
+
+            const first = await client.recurring.recycle('profile_x_001', { minGapDays: 0 });
+            const again = await client.recurring.recycle('profile_x_001', { minGapDays: 0 });
+
+            expect(first.summary.total).toBe(1);
+            expect(queued).not.toContain(first.results[0].data?.due_at);
+            expect(again.summary.total).toBe(0);
+        });
+    });
+
+    describe('Queue API', () => {
+        const ids = (queue: { posts: Array<{ id: string }> }) => queue.posts.map(post => post.id);
+
+        test('should return buffered posts with computed slot times', async () => {
+            const queue = await client.queue.get('profile_x_001');
+
+            expect(queue).toMatchObject({ profileId: 'profile_x_001', timezone: 'America/Los_Angeles', paused: false });
+            expect(queue.posts.length).toBeGreaterThan(1);
+            queue.posts.forEach((post, index) => {
+                expect(post.status).toBe('buffer');
+                expect(post.position).toBe(index + 1);
+                expect(post.slot?.timezone).toBe('America/Los_Angeles');
+                if (index > 0) {
+                    expect(post.due_at!).toBeGreaterThan(queue.posts[index - 1].due_at!);
+                }
+            });
+        });
+
+        test('should add posts to the next free slot', async () => {
+            const [first, second] = await client.schedule.nextSlots('profile_x_001', 2);
+
+            const post = await client.posts.addToQueue('profile_x_001', { text: 'Next slot please' });
+
+            expect(first.scheduledAt).toBe(new Date(first.dueAt).toISOString());
+            expect(post).toMatchObject({ status: 'buffer', due_at: first.dueAt });
+            await expect(client.schedule.nextSlots('profile_x_001', 1)).resolves.toEqual([second]);
+
+            await client.profiles.schedules.set('profile_x_001', []);
+            await expect(client.posts.addToQueue('profile_x_001', { text: 'Nowhere to go' })).rejects.toThrow('has no posting schedule');
+        });
+
+        test('should offer the slots after those the queue fills and never double-book them', async () => {
+            const before = await client.queue.get('profile_x_001');
+            const queuedSlots = before.posts.map(post => post.slot?.dueAt);
+
+            const next = await client.schedule.nextSlots('profile_x_001', 3);
+            await client.posts.addToQueue('profile_x_001', { text: 'Queued last' });
+            const after = await client.queue.get('profile_x_001');
+
+            expect(next.every(slot => !queuedSlots.includes(slot.dueAt))).toBe(true);
+            expect(next[0].dueAt).toBeGreaterThan(Math.max(...(queuedSlots as number[])));
+            const dueTimes = after.posts.map(post => post.due_at);
+            expect(new Set(dueTimes).size).toBe(dueTimes.length);
+            expect(after.posts[after.posts.length - 1]).toMatchObject({ text: 'Queued last', due_at: next[0].dueAt });
+        });
+
+        test('should reorder posts and recalculate their slots', async () => {
+            const before = await client.queue.get('profile_x_001');
+            const [first, second, ...rest] = ids(before);
+
+            const after = await client.queue.reorder('profile_x_001', [second, first]);
+
+            expect(ids(after)).toEqual([second, first, ...rest]);
+            expect(after.posts.map(post => post.due_at)).toEqual(before.posts.map(post => post.due_at));
+            await expect(client.queue.reorder('profile_x_001', ['post_unknown'])).rejects.toBeInstanceOf(ValidationError);
+        });
+
+        test('should move a post to the top and shuffle the queue', async () => {
+            const before = await client.queue.get('profile_x_001');
+            const last = ids(before)[before.posts.length - 1];
+
+            const moved = await client.queue.moveToTop(last);
+            const shuffled = await client.queue.shuffle('profile_x_001');
+
+            expect(ids(moved)[0]).toBe(last);
+            expect([...ids(shuffled)].sort()).toEqual([...ids(before)].sort());
+        });
+
+        test('should only move buffered posts to the top', async () => {
+            const { items } = await client.posts.listPage('profile_x_001', { status: 'sent', count: 1 });
+
+            await expect(client.queue.moveToTop(items[0].id)).rejects.toMatchObject({ code: 'INVALID_POST_STATUS' });
+        });
+
+        test('should pause and resume a queue', async () => {
+            await expect(client.queue.pause('profile_x_001')).resolves.toMatchObject({ paused: true });
+            await expect(client.queue.resume('profile_x_001')).resolves.toMatchObject({ paused: false });
+        });
+
+        test('should send the new order to the API', async () => {
+            const realClient = await createBufferClient({
+                accessToken: 'test-token',
+                bufferSDK: {
+                    clientId: 'test-client-id',
+                    clientSecret: 'test-client-secret',
+                    redirectUri: 'http://localhost:3000/callback',
+                    sdkMockMode: false,
+                },
+            });
+            const profile = createMockProfile({ id: 'profile_123', schedules: [{ days: ['mon'], times: ['09:00'] }] });
+            const queued = [createMockPost({ id: 'post_a', status: 'buffer' }), createMockPost({ id: 'post_b', status: 'buffer' })];
+            mockedAxios.get
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: profile }))
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: queued }))
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: profile }))
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [queued[1], queued[0]] }));
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({ success: true }));
+
+            const queue = await realClient.queue.reorder('profile_123', ['post_b']);
+
+            expect(mockedAxios.post.mock.calls[0][0]).toContain('/profiles/profile_123/updates/reorder.json');
+            expect(mockedAxios.post.mock.calls[0][1]).toEqual({ order: ['post_b', 'post_a'] });
+            expect(ids(queue)).toEqual(['post_b', 'post_a']);
+            expect(queue.posts[0].slot).toEqual({
+                day: 'mon',
+                time: '09:00',
+                timezone: 'America/Los_Angeles',
+                dueAt: queue.posts[0].due_at,
+                scheduledAt: new Date(queue.posts[0].due_at!).toISOString(),
+            });
+        });
+    });
+
+    describe('Pagination', () => {
+        const sdkConfig = {
+            clientId: 'test-client-id',
+            clientSecret: 'test-client-secret',
+            redirectUri: 'http://localhost:3000/callback',
+            sdkMockMode: false,
+        };
+
+        test('should return page metadata in mock mode', async () => {
+            const first = await client.posts.listPage('profile_x_001');
+            const last = await client.posts.listPage('profile_x_001', { page: 3 });
+
+            expect(first).toMatchObject({ page: 1, hasMore: true, total: 45 });
+            expect(first.items).toHaveLength(20);
+            expect(last).toMatchObject({ page: 3, hasMore: false, total: 45 });
+            expect(last.items).toHaveLength(5);
+        });
+
+        test('should iterate every post once across pages', async () => {
+            const ids: string[] = [];
+            for await (const post of client.posts.iterate('profile_x_001', { count: 10 })) {
+                ids.push(post.id);
+            }
+
+            expect(ids).toHaveLength(45);
+            expect(new Set(ids).size).toBe(45);
+        });
+
+        test('should apply status filters before paginating', async () => {
+            const scheduled: string[] = [];
+            for await (const post of client.posts.iterate('profile_x_001', { status: 'buffer', count: 4 })) {
+                expect(post.status).toBe('buffer');
+                scheduled.push(post.id);
+            }
+
+            const page = await client.posts.listPage('profile_x_001', { status: 'buffer' });
+            expect(scheduled).toHaveLength(page.total!);
+        });
+
+        test('should fetch pages lazily until the API reports no more', async () => {
+            const realClient = await createBufferClient({ accessToken: 'test-token', bufferSDK: sdkConfig });
+            mockedAxios.get
+                .mockResolvedValueOnce(createMockAxiosResponse({
+                    success: true,
+                    data: [createMockPost({ id: 'post_1' }), createMockPost({ id: 'post_2' })],
+                    pagination: { page: 1, count: 2, has_more: true },
+                }))
+                .mockResolvedValueOnce(createMockAxiosResponse({
+                    success: true,
+                    data: [createMockPost({ id: 'post_3' })],
+                    pagination: { page: 2, count: 2, has_more: false },
+                }));
+
+            const ids: string[] = [];
+            for await (const post of realClient.posts.iterate('profile_123', { count: 2, status: 'sent' })) {
+                ids.push(post.id);
+            }
+
+            expect(ids).toEqual(['post_1', 'post_2', 'post_3']);
+            expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+            expect(mockedAxios.get.mock.calls[1][1]).toMatchObject({ params: { page: 2, count: 2, status: 'sent' } });
+        });
+
+        test('should stop iterating when the signal is aborted', async () => {
+            const controller = new AbortController();
+            const iterator = client.posts.iterate('profile_x_001', { count: 10 }, { signal: controller.signal });
+
+            let seen = 0;
+            const iterate = async () => {
+                for await (const _post of iterator) {
+                    if (++seen === 10) {
+                        controller.abort();
+                    }
+                }
+            };
+
+            await expect(iterate()).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+            expect(seen).toBe(10);
+        });
+    });
+
     describe('Analytics API', () => {
         test('should get analytics summary', async () => {
             const profiles = await client.profiles.list();
@@ -174,12 +862,20 @@ describe('BufferClient', () => {
                 .toThrow(BufferAPIError);
         });
 
+        test('should throw typed errors callers can narrow by code', async () => {
+            const error = await client.profiles.get('missing_profile').catch(err => err);
+
+            expect(error).toBeInstanceOf(NotFoundError);
+            expect(isBufferError(error, 'PROFILE_NOT_FOUND')).toBe(true);
+        });
+
         test('should handle rate limiting', async () => {
             const rateLimitedClient = await createBufferClient({
                 accessToken: 'test-token',
                 rateLimit: {
                     requests: 1,
                     window: 1000,
+                    strategy: 'throw',
                 },
                 bufferSDK: {
                     clientId: 'test-client-id',
@@ -202,6 +898,529 @@ describe('BufferClient', () => {
                 .rejects
                 .toThrow('Rate limit exceeded');
         });
+
+        test('should queue requests until the limiter has capacity', async () => {
+            const queuedClient = await createBufferClient({
+                accessToken: 'test-token',
+                rateLimit: {
+                    requests: 1,
+                    window: 50,
+                },
+                bufferSDK: {
+                    clientId: 'test-client-id',
+                    clientSecret: 'test-client-secret',
+                    redirectUri: 'http://localhost:3000/callback',
+                    sdkMockMode: false,
+                },
+            });
+            mockedAxios.get
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }))
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }));
+
+            const results = await Promise.all([queuedClient.profiles.list(), queuedClient.profiles.list()]);
+
+            expect(results).toEqual([[], []]);
+            expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('Server Rate Limits', () => {
+        const sdkConfig = {
+            clientId: 'test-client-id',
+            clientSecret: 'test-client-secret',
+            redirectUri: 'http://localhost:3000/callback',
+            sdkMockMode: false,
+        };
+
+        test('should retry a 429 after the Retry-After delay', async () => {
+            const limitedClient = await createBufferClient({ accessToken: 'test-token', bufferSDK: sdkConfig });
+            mockedAxios.get
+                .mockRejectedValueOnce({
+                    message: 'Too Many Requests',
+                    response: { status: 429, data: {}, headers: { 'Retry-After': '0' } },
+                })
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }));
+
+            await expect(limitedClient.profiles.list()).resolves.toEqual([]);
+            expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+        });
+
+        test('should give up when Retry-After exceeds the maximum wait', async () => {
+            const limitedClient = await createBufferClient({
+                accessToken: 'test-token',
+                rateLimit: { requests: 100, window: 3600000, maxWaitMs: 1000 },
+                bufferSDK: sdkConfig,
+            });
+            mockedAxios.get.mockRejectedValueOnce({
+                message: 'Too Many Requests',
+                response: { status: 429, data: {}, headers: { 'retry-after': '120' } },
+            });
+
+            await expect(limitedClient.profiles.list()).rejects.toMatchObject({ statusCode: 429 });
+            expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+        });
+
+        test('should surface server rate limit headers in client stats', async () => {
+            const limitedClient = await createBufferClient({ accessToken: 'test-token', bufferSDK: sdkConfig });
+            const resetAt = Math.floor(Date.now() / 1000) + 600;
+            mockedAxios.get.mockResolvedValueOnce({
+                ...createMockAxiosResponse({ success: true, data: [] }),
+                headers: { 'X-RateLimit-Remaining': '42', 'X-RateLimit-Reset': String(resetAt) },
+            });
+
+            await limitedClient.profiles.list();
+
+            expect(limitedClient.getStats()).toMatchObject({
+                requestCount: 1,
+                errorCount: 0,
+                rateLimitRemaining: 42,
+                rateLimitReset: resetAt * 1000,
+            });
+        });
+    });
+
+    describe('Retries', () => {
+        const createRetryClient = (retry = {}) => createBufferClient({
+            accessToken: 'test-token',
+            retry: { delay: 0, ...retry },
+            bufferSDK: {
+                clientId: 'test-client-id',
+                clientSecret: 'test-client-secret',
+                redirectUri: 'http://localhost:3000/callback',
+                sdkMockMode: false,
+            },
+        });
+        const badGateway = { message: 'Bad Gateway', response: { status: 502, data: {}, headers: {} } };
+
+        test('should retry idempotent requests and report each attempt', async () => {
+            const onRetry = jest.fn();
+            const retryClient = await createRetryClient({ onRetry });
+            mockedAxios.get
+                .mockRejectedValueOnce(badGateway)
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }));
+
+            await expect(retryClient.profiles.list()).resolves.toEqual([]);
+            expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+            expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delayMs: 0 }));
+        });
+
+        test('should replay a create with the same idempotency key', async () => {
+            const retryClient = await createRetryClient();
+            mockedAxios.get.mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: createMockProfile({ id: 'profile_123' }) }));
+            mockedAxios.post
+                .mockRejectedValueOnce({ message: 'timeout of 10000ms exceeded', code: 'ECONNABORTED' })
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: createMockPost() }));
+
+            await retryClient.posts.create('profile_123', { text: 'Hello' });
+
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+            const [first, second] = mockedAxios.post.mock.calls;
+            const key = (first[2] as any).headers['Idempotency-Key'];
+            expect(key).toEqual(expect.any(String));
+            expect((second[2] as any).headers['Idempotency-Key']).toBe(key);
+            expect(first[1]).toEqual({ text: 'Hello' });
+        });
+
+        test('should send a caller-supplied idempotency key', async () => {
+            const retryClient = await createRetryClient();
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: createMockPost() }));
+
+            await retryClient.posts.create('profile_123', { text: 'Hello', idempotencyKey: 'order-42', validate: false });
+
+            expect(mockedAxios.post.mock.calls[0][1]).toEqual({ text: 'Hello' });
+            expect((mockedAxios.post.mock.calls[0][2] as any).headers['Idempotency-Key']).toBe('order-42');
+        });
+
+        test('should honour per-call retry overrides', async () => {
+            const retryClient = await createRetryClient();
+            mockedAxios.get
+                .mockRejectedValueOnce(badGateway)
+                .mockRejectedValueOnce(badGateway)
+                .mockRejectedValueOnce(badGateway)
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }));
+
+            await expect(retryClient.profiles.list({ retry: { attempts: 4 } })).resolves.toEqual([]);
+            expect(mockedAxios.get).toHaveBeenCalledTimes(4);
+
+            mockedAxios.get.mockRejectedValueOnce(badGateway);
+            await expect(retryClient.profiles.list({ retry: false })).rejects.toMatchObject({ statusCode: 502 });
+            expect(mockedAxios.get).toHaveBeenCalledTimes(5);
+        });
+
+        test('should respect a custom shouldRetry predicate', async () => {
+            const shouldRetry = jest.fn().mockReturnValue(false);
+            const retryClient = await createRetryClient({ shouldRetry });
+            mockedAxios.get.mockRejectedValueOnce(badGateway);
+
+            await expect(retryClient.profiles.list()).rejects.toMatchObject({ statusCode: 502 });
+            expect(shouldRetry).toHaveBeenCalledWith(expect.any(BufferAPIError), 1);
+            expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Cancellation', () => {
+        const sdkConfig = {
+            clientId: 'test-client-id',
+            clientSecret: 'test-client-secret',
+            redirectUri: 'http://localhost:3000/callback',
+            sdkMockMode: false,
+        };
+
+        test('should pass the signal and per-call timeout to the transport', async () => {
+            const realClient = await createBufferClient({ accessToken: 'test-token', timeout: 10000, bufferSDK: sdkConfig });
+            const controller = new AbortController();
+            mockedAxios.get.mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }));
+
+            await realClient.profiles.list({ signal: controller.signal, timeout: 2500 });
+
+            expect(mockedAxios.get.mock.calls[0][1]).toMatchObject({ signal: controller.signal, timeout: 2500 });
+        });
+
+        test('should not send a request whose signal is already aborted', async () => {
+            const realClient = await createBufferClient({ accessToken: 'test-token', bufferSDK: sdkConfig });
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(realClient.analytics.summary('profile_123', {}, { signal: controller.signal }))
+                .rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+            expect(mockedAxios.get).not.toHaveBeenCalled();
+        });
+
+        test('should interrupt the retry backoff', async () => {
+            const realClient = await createBufferClient({
+                accessToken: 'test-token',
+                retry: { delay: 60000, jitter: 'none' },
+                bufferSDK: sdkConfig,
+            });
+            const controller = new AbortController();
+            mockedAxios.get.mockRejectedValueOnce({ message: 'Bad Gateway', response: { status: 502, data: {}, headers: {} } });
+
+            const request = realClient.profiles.list({ signal: controller.signal });
+            setTimeout(() => controller.abort(), 10);
+
+            await expect(request).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+            expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+        });
+
+        test('should map a cancelled axios request to REQUEST_ABORTED', async () => {
+            const realClient = await createBufferClient({ accessToken: 'test-token', bufferSDK: sdkConfig });
+            mockedAxios.get.mockRejectedValueOnce(Object.assign(new Error('canceled'), { name: 'CanceledError', code: 'ERR_CANCELED' }));
+
+            await expect(realClient.profiles.list()).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+        });
+    });
+
+    describe('Circuit Breaker', () => {
+        const createBreakerClient = () => createBufferClient({
+            accessToken: 'test-token',
+            retry: { attempts: 1 },
+            circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 },
+            bufferSDK: {
+                clientId: 'test-client-id',
+                clientSecret: 'test-client-secret',
+                redirectUri: 'http://localhost:3000/callback',
+                sdkMockMode: false,
+            },
+        });
+        const unavailable = { message: 'Service Unavailable', response: { status: 503, data: {}, headers: {} } };
+
+        test('should fail fast once an endpoint group is degraded', async () => {
+            const breakerClient = await createBreakerClient();
+            const events: any[] = [];
+            breakerClient.onCircuitStateChange(event => events.push(event));
+            mockedAxios.get.mockRejectedValueOnce(unavailable).mockRejectedValueOnce(unavailable);
+
+            await expect(breakerClient.analytics.summary('profile_123')).rejects.toMatchObject({ code: 'HTTP_503' });
+            await expect(breakerClient.analytics.summary('profile_123')).rejects.toMatchObject({ code: 'HTTP_503' });
+            await expect(breakerClient.analytics.summary('profile_123')).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+
+            expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+            expect(breakerClient.getCircuitState('analytics')).toBe('open');
+            expect(events).toEqual([expect.objectContaining({ group: 'analytics', from: 'closed', to: 'open' })]);
+        });
+
+        test('should keep other endpoint groups available', async () => {
+            const breakerClient = await createBreakerClient();
+            mockedAxios.get.mockRejectedValueOnce(unavailable).mockRejectedValueOnce(unavailable);
+            await expect(breakerClient.analytics.summary('profile_123')).rejects.toThrow(BufferAPIError);
+            await expect(breakerClient.analytics.summary('profile_123')).rejects.toThrow(BufferAPIError);
+
+            mockedAxios.get.mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: createMockProfile({ id: 'profile_123' }) }));
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: createMockPost() }));
+            await expect(breakerClient.posts.create('profile_123', { text: 'Still publishing' })).resolves.toHaveProperty('id');
+            expect(breakerClient.getCircuitState('posts')).toBe('closed');
+        });
+    });
+
+    describe('Token Refresh', () => {
+        const sdkConfig = {
+            clientId: 'test-client-id',
+            clientSecret: 'test-client-secret',
+            redirectUri: 'http://localhost:3000/callback',
+            sdkMockMode: false,
+        };
+
+        test('should refresh and replay a request that returns 401', async () => {
+            const onTokenRefresh = jest.fn();
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({
+                access_token: 'initial-token',
+                token_type: 'Bearer',
+                refresh_token: 'refresh-1',
+                expires_in: 3600,
+            }));
+
+            const refreshingClient = await createBufferClient({ bufferSDK: sdkConfig, onTokenRefresh });
+
+            mockedAxios.get.mockRejectedValueOnce({ message: 'Unauthorized', response: { status: 401, data: {} } });
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({
+                access_token: 'refreshed-token',
+                token_type: 'Bearer',
+                expires_in: 3600,
+            }));
+            mockedAxios.get.mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [createMockProfile()] }));
+
+            const profiles = await refreshingClient.profiles.list();
+
+            expect(profiles).toHaveLength(1);
+            expect(mockedAxios.post).toHaveBeenLastCalledWith(expect.any(String), expect.objectContaining({
+                grant_type: 'refresh_token',
+                refresh_token: 'refresh-1',
+            }));
+            expect(refreshingClient.getTokens()).toMatchObject({
+                access_token: 'refreshed-token',
+                refresh_token: 'refresh-1',
+            });
+            expect(onTokenRefresh).toHaveBeenCalledTimes(2);
+        });
+
+        test('should share one refresh call between concurrent requests', async () => {
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({
+                access_token: 'expiring-token',
+                token_type: 'Bearer',
+                refresh_token: 'refresh-1',
+                expires_in: 30,
+            }));
+
+            const refreshingClient = await createBufferClient({ bufferSDK: sdkConfig, tokenRefreshMargin: 60000 });
+
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({
+                access_token: 'refreshed-token',
+                token_type: 'Bearer',
+                expires_in: 3600,
+            }));
+            mockedAxios.get
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }))
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }));
+
+            await Promise.all([refreshingClient.profiles.list(), refreshingClient.profiles.list()]);
+
+            const refreshCalls = mockedAxios.post.mock.calls.filter(([, body]: any[]) => body?.grant_type === 'refresh_token');
+            expect(refreshCalls).toHaveLength(1);
+            expect(refreshingClient.getTokens()?.access_token).toBe('refreshed-token');
+        });
+
+        test('should replay without refreshing again when a 401 arrives after another request refreshed', async () => {
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({
+                access_token: 'initial-token',
+                token_type: 'Bearer',
+                refresh_token: 'refresh-1',
+                expires_in: 3600,
+            }));
+
+            const refreshingClient = await createBufferClient({ bufferSDK: sdkConfig });
+
+            const unauthorized = { message: 'Unauthorized', response: { status: 401, data: {} } };
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({
+                access_token: 'refreshed-token',
+                token_type: 'Bearer',
+                expires_in: 3600,
+            }));
+            mockedAxios.get
+                .mockRejectedValueOnce(unauthorized)
+                // Sent with the old token, but only answered once the first refresh has finished
+                .mockImplementationOnce(() => new Promise((_resolve, reject) => setTimeout(() => reject(unauthorized), 20)))
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }))
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }));
+
+            await Promise.all([refreshingClient.profiles.list(), refreshingClient.profiles.list()]);
+
+            const refreshCalls = mockedAxios.post.mock.calls.filter(([, body]: any[]) => body?.grant_type === 'refresh_token');
+            expect(refreshCalls).toHaveLength(1);
+            expect(mockedAxios.get.mock.calls[3][1]?.headers?.Authorization).toBe('Bearer refreshed-token');
+        });
+    });
+
+    describe('Token Store', () => {
+        const sdkConfig = {
+            clientId: 'test-client-id',
+            clientSecret: 'test-client-secret',
+            redirectUri: 'http://localhost:3000/callback',
+            code: 'auth-code',
+            sdkMockMode: true,
+        };
+
+        test('should skip the code exchange when valid tokens are stored', async () => {
+            const tokenStore = new MemoryTokenStore();
+            await tokenStore.save({ clientId: 'test-client-id', account: 'acme' }, {
+                access_token: 'stored-token',
+                token_type: 'Bearer',
+                expires_at: Date.now() + 3600000,
+            });
+
+            const storedClient = await createBufferClient({ bufferSDK: sdkConfig, tokenStore, account: 'acme' });
+
+            expect(mockedAxios.post).not.toHaveBeenCalled();
+            expect(storedClient.getTokens()?.access_token).toBe('stored-token');
+        });
+
+        test('should persist tokens issued by the code exchange', async () => {
+            const tokenStore = new MemoryTokenStore();
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({
+                access_token: 'exchanged-token',
+                token_type: 'Bearer',
+                refresh_token: 'refresh-1',
+                expires_in: 3600,
+            }));
+
+            await createBufferClient({ bufferSDK: sdkConfig, tokenStore });
+
+            const stored = await tokenStore.load({ clientId: 'test-client-id', account: 'default' });
+            expect(stored).toMatchObject({ access_token: 'exchanged-token', refresh_token: 'refresh-1' });
+            expect(stored?.expires_at).toBeGreaterThan(Date.now());
+        });
+
+        test('should exchange the code when the stored token expired without a refresh token', async () => {
+            const tokenStore = new MemoryTokenStore();
+            await tokenStore.save({ clientId: 'test-client-id', account: 'default' }, {
+                access_token: 'expired-token',
+                token_type: 'Bearer',
+                expires_at: Date.now() - 1000,
+            });
+            mockedAxios.post.mockResolvedValueOnce(createMockAxiosResponse({
+                access_token: 'exchanged-token',
+                token_type: 'Bearer',
+            }));
+
+            const exchangedClient = await createBufferClient({ bufferSDK: sdkConfig, tokenStore });
+
+            expect(exchangedClient.getTokens()?.access_token).toBe('exchanged-token');
+        });
+    });
+
+    describe('HTTP Client Isolation', () => {
+        const createFakeHttpClient = () => ({
+            get: jest.fn(),
+            post: jest.fn(),
+            put: jest.fn(),
+            delete: jest.fn(),
+            interceptors: {
+                request: { use: jest.fn().mockReturnValue(1), eject: jest.fn() },
+                response: { use: jest.fn().mockReturnValue(2), eject: jest.fn() },
+            },
+        });
+
+        const sdkConfig = {
+            clientId: 'test-client-id',
+            clientSecret: 'test-client-secret',
+            redirectUri: 'http://localhost:3000/callback',
+            sdkMockMode: false,
+        };
+
+        test('should create a dedicated axios instance per client', async () => {
+            mockedAxios.create.mockClear();
+
+            await createBufferClient({ accessToken: 'token-a', bufferSDK: sdkConfig });
+            await createBufferClient({ accessToken: 'token-b', bufferSDK: sdkConfig });
+
+            expect(mockedAxios.create).toHaveBeenCalledTimes(2);
+        });
+
+        test('should authenticate each injected client with its own token', async () => {
+            const httpA = createFakeHttpClient();
+            const httpB = createFakeHttpClient();
+            httpA.get.mockResolvedValue(createMockAxiosResponse({ success: true, data: [] }));
+            httpB.get.mockResolvedValue(createMockAxiosResponse({ success: true, data: [] }));
+
+            const clientA = await createBufferClient({ accessToken: 'token-a', httpClient: httpA, bufferSDK: sdkConfig });
+            const clientB = await createBufferClient({ accessToken: 'token-b', httpClient: httpB, bufferSDK: sdkConfig });
+            await clientA.profiles.list();
+            await clientB.profiles.list();
+
+            expect(httpA.get.mock.calls[0][1].headers.Authorization).toBe('Bearer token-a');
+            expect(httpB.get.mock.calls[0][1].headers.Authorization).toBe('Bearer token-b');
+        });
+
+        test('should not install interceptors when re-initialized', async () => {
+            const httpClient = createFakeHttpClient();
+            const isolatedClient = await createBufferClient({ accessToken: 'token-a', httpClient, bufferSDK: sdkConfig });
+
+            await isolatedClient.initialize();
+
+            expect(httpClient.interceptors.request.use).not.toHaveBeenCalled();
+            expect(httpClient.interceptors.response.use).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Middleware', () => {
+        const sdkConfig = {
+            clientId: 'test-client-id',
+            clientSecret: 'test-client-secret',
+            redirectUri: 'http://localhost:3000/callback',
+            sdkMockMode: false,
+        };
+
+        test('should let middlewares modify the request', async () => {
+            const pipelineClient = await createBufferClient({ accessToken: 'test-token', bufferSDK: sdkConfig });
+            pipelineClient.use(async (request, next) => {
+                request.headers['X-Tenant'] = 'acme';
+                return next(request);
+            });
+            mockedAxios.get.mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }));
+
+            await pipelineClient.posts.list('profile-1', { count: 5 });
+
+            const [url, config] = mockedAxios.get.mock.calls[0] as any[];
+            expect(url).toBe('http://localhost:8083/api/v1/sdk/profiles/profile-1/updates.json');
+            expect(config.params).toMatchObject({ count: 5 });
+            expect(config.headers).toMatchObject({ 'X-Tenant': 'acme', Authorization: 'Bearer test-token' });
+        });
+
+        test('should allow middlewares to short-circuit the transport', async () => {
+            const pipelineClient = await createBufferClient({
+                accessToken: 'test-token',
+                bufferSDK: sdkConfig,
+                middleware: [
+                    async request => ({ status: 200, data: { success: true, data: [createMockProfile()] }, headers: {}, request }),
+                ],
+            });
+
+            const profiles = await pipelineClient.profiles.list();
+
+            expect(profiles).toHaveLength(1);
+            expect(mockedAxios.get).not.toHaveBeenCalled();
+        });
+
+        test('should expose the attempt number and mapped errors to middlewares', async () => {
+            const seen: Array<{ attempt: number; code?: string }> = [];
+            const pipelineClient = await createBufferClient({ accessToken: 'test-token', retryDelay: 1, bufferSDK: sdkConfig });
+            pipelineClient.use(async (request, next) => {
+                try {
+                    const response = await next(request);
+                    seen.push({ attempt: request.attempt });
+                    return response;
+                } catch (error) {
+                    seen.push({ attempt: request.attempt, code: (error as BufferAPIError).code });
+                    throw error;
+                }
+            });
+            mockedAxios.get
+                .mockRejectedValueOnce({ message: 'Bad Gateway', response: { status: 502, data: {} } })
+                .mockResolvedValueOnce(createMockAxiosResponse({ success: true, data: [] }));
+
+            await pipelineClient.profiles.list();
+
+            expect(seen).toEqual([{ attempt: 1, code: 'HTTP_502' }, { attempt: 2 }]);
+        });
     });
 
     describe('Mock Mode', () => {
@@ -0,0 +1,87 @@
+import {
+    AuthenticationError,
+    BufferAPIError,
+    isBufferError,
+    NetworkError,
+    NotFoundError,
+    RateLimitError,
+    ServerError,
+    ValidationError,
+} from '../src';
+import { toBufferAPIError } from '../src/errors';
+
+const httpError = (status: number, data: any = {}, headers: Record<string, string> = {}) => ({
+    message: `Request failed with status code ${status}`,
+    response: { status, data, headers },
+});
+
+describe('toBufferAPIError', () => {
+    test.each([
+        [401, AuthenticationError],
+        [403, AuthenticationError],
+        [404, NotFoundError],
+        [422, ValidationError],
+        [429, RateLimitError],
+        [502, ServerError],
+    ])('should map HTTP %i to %p', (status, ErrorClass) => {
+        const error = toBufferAPIError(httpError(status));
+
+        expect(error).toBeInstanceOf(ErrorClass);
+        expect(error).toBeInstanceOf(BufferAPIError);
+        expect(error.code).toBe(`HTTP_${status}`);
+        expect(error.name).toBe(ErrorClass.name);
+    });
+
+    test('should map unknown server codes to HTTP_<status> and keep the raw code in details', () => {
+        const error = toBufferAPIError(httpError(409, { code: 'DUPLICATE_UPDATE', message: 'Already queued' }));
+
+        expect(error.code).toBe('HTTP_409');
+        expect(error.message).toBe('Already queued');
+        expect(error.details).toMatchObject({ code: 'DUPLICATE_UPDATE' });
+    });
+
+    test('should keep server codes the SDK knows', () => {
+        const error = toBufferAPIError(httpError(404, { code: 'PROFILE_NOT_FOUND' }));
+
+        expect(error.code).toBe('PROFILE_NOT_FOUND');
+        expect(error).toBeInstanceOf(NotFoundError);
+    });
+
+    test('should keep the original transport error as the cause', () => {
+        const original = { message: 'socket hang up', request: {} };
+
+        const error = toBufferAPIError(original);
+
+        expect(error).toBeInstanceOf(NetworkError);
+        expect(error.cause).toBe(original);
+    });
+
+    test('should read retryAfterMs from the Retry-After header', () => {
+        const error = toBufferAPIError(httpError(429, {}, { 'Retry-After': '30' }));
+
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect((error as RateLimitError).retryAfterMs).toBe(30000);
+    });
+
+    test('should collect field errors from list and map payloads', () => {
+        const listed = toBufferAPIError(httpError(400, {
+            code: 'VALIDATION_ERROR',
+            errors: [{ field: 'text', message: 'Text is required' }],
+        })) as ValidationError;
+        const mapped = toBufferAPIError(httpError(422, { errors: { scheduled_at: ['Must be in the future'] } })) as ValidationError;
+
+        expect(listed.fieldErrors).toEqual([{ field: 'text', message: 'Text is required', code: undefined }]);
+        expect(mapped.fieldErrors).toEqual([{ field: 'scheduled_at', message: 'Must be in the future' }]);
+    });
+});
+
+describe('isBufferError', () => {
+    test('should narrow SDK errors, optionally by code', () => {
+        const error: unknown = new NotFoundError('POST_NOT_FOUND', 'Post not found', 404);
+
+        expect(isBufferError(error)).toBe(true);
+        expect(isBufferError(error, 'POST_NOT_FOUND')).toBe(true);
+        expect(isBufferError(error, 'PROFILE_NOT_FOUND')).toBe(false);
+        expect(isBufferError(new Error('boom'))).toBe(false);
+    });
+});
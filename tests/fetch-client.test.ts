@@ -0,0 +1,96 @@
+import { BufferAPIError, createBufferClient, FetchHTTPClient } from '../src';
+
+const jsonResponse = (body: any, status = 200) => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+});
+
+describe('FetchHTTPClient', () => {
+    test('should send JSON bodies and query params', async () => {
+        const fetchMock = jest.fn().mockResolvedValue(jsonResponse({ success: true }));
+        const http = new FetchHTTPClient({ baseURL: 'https://api.example.com/v1/', fetch: fetchMock });
+
+        const response = await http.post('/updates.json', { text: 'hello' }, { params: { page: 2, status: undefined } });
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('https://api.example.com/v1/updates.json?page=2');
+        expect(init.method).toBe('POST');
+        expect(init.body).toBe(JSON.stringify({ text: 'hello' }));
+        expect(init.headers['Content-Type']).toBe('application/json');
+        expect(response).toMatchObject({ status: 200, data: { success: true } });
+    });
+
+    test('should map HTTP errors like the axios transport', async () => {
+        const fetchMock = jest.fn().mockResolvedValue(jsonResponse({ code: 'PROFILE_NOT_FOUND', message: 'Missing' }, 404));
+        const http = new FetchHTTPClient({ fetch: fetchMock });
+
+        await expect(http.get('https://api.example.com/profiles/1.json')).rejects.toMatchObject({
+            code: 'PROFILE_NOT_FOUND',
+            message: 'Missing',
+            statusCode: 404,
+        });
+    });
+
+    test('should map network failures to NETWORK_ERROR', async () => {
+        const fetchMock = jest.fn().mockRejectedValue(new TypeError('fetch failed'));
+        const http = new FetchHTTPClient({ fetch: fetchMock });
+
+        await expect(http.get('https://api.example.com/profiles.json')).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    });
+
+    test('should abort requests that exceed the timeout', async () => {
+        const fetchMock = jest.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+        }));
+        const http = new FetchHTTPClient({ fetch: fetchMock as any, timeout: 10 });
+
+        const request = http.get('https://api.example.com/profiles.json');
+
+        await expect(request).rejects.toBeInstanceOf(BufferAPIError);
+        await expect(request).rejects.toMatchObject({ code: 'TIMEOUT' });
+    });
+
+    test('should report caller cancellation as REQUEST_ABORTED', async () => {
+        const fetchMock = jest.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+        }));
+        const http = new FetchHTTPClient({ fetch: fetchMock as any });
+        const controller = new AbortController();
+
+        const request = http.get('https://api.example.com/profiles.json', { signal: controller.signal });
+        controller.abort();
+
+        await expect(request).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+    });
+
+    test('should reject an already-aborted signal without calling fetch', async () => {
+        const fetchMock = jest.fn().mockResolvedValue(jsonResponse({ success: true }));
+        const http = new FetchHTTPClient({ fetch: fetchMock });
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(http.get('https://api.example.com/profiles.json', { signal: controller.signal }))
+            .rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    test('should be usable as the BufferClient transport', async () => {
+        const fetchMock = jest.fn().mockResolvedValue(jsonResponse({ success: true, data: [] }));
+        const client = await createBufferClient({
+            accessToken: 'fetch-token',
+            httpClient: new FetchHTTPClient({ fetch: fetchMock }),
+            bufferSDK: {
+                clientId: 'test-client-id',
+                clientSecret: 'test-client-secret',
+                redirectUri: 'http://localhost:3000/callback',
+                sdkMockMode: false,
+            },
+        });
+
+        await client.profiles.list();
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('http://localhost:8083/api/v1/sdk/profiles.json');
+        expect(init.headers.Authorization).toBe('Bearer fetch-token');
+    });
+});
@@ -0,0 +1,57 @@
+import { applyUtm, findUrls, rewriteLinks } from '../src/links';
+import { LinkContext, LinkShortener } from '../src/types';
+
+const context: LinkContext = { platform: 'linkedin', profileId: 'profile_1', campaign: 'spring' };
+
+describe('findUrls', () => {
+    test('should find links and drop trailing punctuation', () => {
+        expect(findUrls('Read https://example.com/a, then (https://example.com/b). Done!'))
+            .toEqual(['https://example.com/a', 'https://example.com/b']);
+        expect(findUrls('No links here')).toEqual([]);
+    });
+});
+
+describe('applyUtm', () => {
+    test('should fill placeholders and keep existing parameters', () => {
+        const template = { source: '{platform}', medium: 'social', campaign: '{campaign}', content: '{unknown}' };
+
+        expect(applyUtm('https://example.com/post?id=1', template, context))
+            .toBe('https://example.com/post?id=1&utm_source=linkedin&utm_medium=social&utm_campaign=spring');
+        expect(applyUtm('https://example.com/?utm_source=newsletter', template, context))
+            .toBe('https://example.com/?utm_source=newsletter&utm_medium=social&utm_campaign=spring');
+    });
+
+    test('should leave the URL untouched when nothing is added', () => {
+        expect(applyUtm('https://example.com', { campaign: '{campaign}' }, { ...context, campaign: undefined })).toBe('https://example.com');
+    });
+});
+
+describe('rewriteLinks', () => {
+    test('should tag and shorten each distinct link once across texts', async () => {
+        const shortener: LinkShortener = { shorten: jest.fn(async (url: string) => `https://sho.rt/${url.length}`) };
+
+        const result = await rewriteLinks(
+            ['See https://example.com/a.', 'Again: https://example.com/a and https://example.com/b'],
+            { utm: { source: '{platform}' }, shortener },
+            context
+        );
+
+        expect(shortener.shorten).toHaveBeenCalledTimes(2);
+        expect(shortener.shorten).toHaveBeenCalledWith('https://example.com/a?utm_source=linkedin', context);
+        expect(result.texts).toEqual(['See https://sho.rt/41.', 'Again: https://sho.rt/41 and https://sho.rt/41']);
+        expect(result.links).toEqual([
+            { original: 'https://example.com/a', tagged: 'https://example.com/a?utm_source=linkedin', short: 'https://sho.rt/41' },
+            { original: 'https://example.com/b', tagged: 'https://example.com/b?utm_source=linkedin', short: 'https://sho.rt/41' },
+        ]);
+    });
+
+    test('should wrap shortener failures', async () => {
+        const shortener: LinkShortener = { shorten: async () => { throw new Error('quota exceeded'); } };
+
+        await expect(rewriteLinks(['https://example.com'], { shortener }, context)).rejects.toMatchObject({
+            code: 'LINK_SHORTEN_FAILED',
+            details: { url: 'https://example.com' },
+            cause: expect.objectContaining({ message: 'quota exceeded' }),
+        });
+    });
+});
@@ -0,0 +1,169 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { detectMediaInfo, inspectMedia, MEDIA_SIZE_LIMITS, openMediaInput } from '../src/media';
+import { ValidationError } from '../src/types';
+
+const png = (width: number, height: number): Uint8Array => {
+    const bytes = new Uint8Array(33);
+    bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(16, width);
+    view.setUint32(20, height);
+    return bytes;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => new Uint8Array(Buffer.concat(parts));
+
+// ISO-BMFF box: 32-bit size, four-character type, payload
+const box = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+    const bytes = concatBytes([new Uint8Array(8), ...payload]);
+    new DataView(bytes.buffer).setUint32(0, bytes.length);
+    bytes.set(Buffer.from(type), 4);
+    return bytes;
+};
+
+const mvhd = (timescale: number, duration: number): Uint8Array => {
+    const payload = new Uint8Array(100);
+    new DataView(payload.buffer).setUint32(12, timescale);
+    new DataView(payload.buffer).setUint32(16, duration);
+    return box('mvhd', payload);
+};
+
+const tkhd = (width: number, height: number): Uint8Array => {
+    const payload = new Uint8Array(84);
+    new DataView(payload.buffer).setUint32(76, width << 16);
+    new DataView(payload.buffer).setUint32(80, height << 16);
+    return box('tkhd', payload);
+};
+
+const ftyp = box('ftyp', new Uint8Array(Buffer.from('isom\0\0\0\0')));
+// An audio track (0x0) before the video track, as cameras write them
+const moov = box('moov', mvhd(600, 27000), box('trak', tkhd(0, 0)), box('trak', tkhd(1920, 1080)));
+
+describe('detectMediaInfo', () => {
+    test('should read type and dimensions from image headers', () => {
+        const gif = new Uint8Array([...Buffer.from('GIF89a'), 0x40, 0x01, 0xf0, 0x00, 0, 0]);
+        // SOI, APP0 (length 4) then SOF0 with height 480 and width 640
+        const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 4, 0, 0, 0xff, 0xc0, 0, 17, 8, 0x01, 0xe0, 0x02, 0x80, 3]);
+
+        expect(detectMediaInfo(png(1200, 675))).toEqual({ type: 'image', mimeType: 'image/png', size: 33, width: 1200, height: 675 });
+        expect(detectMediaInfo(gif)).toMatchObject({ type: 'gif', mimeType: 'image/gif', width: 320, height: 240 });
+        expect(detectMediaInfo(jpeg)).toMatchObject({ type: 'image', mimeType: 'image/jpeg', width: 640, height: 480 });
+    });
+
+    test('should read video dimensions and duration from the movie headers', () => {
+        const video = concatBytes([ftyp, moov]);
+
+        expect(detectMediaInfo(video)).toMatchObject({ type: 'video', mimeType: 'video/mp4', width: 1920, height: 1080, duration: 45 });
+    });
+
+    test('should find the movie box after the media data without matching box names inside it', () => {
+        // Media data that happens to contain movie and track header names
+        const mdat = box('mdat', mvhd(1, 999999), tkhd(4000, 3000), new Uint8Array(1000));
+
+        expect(detectMediaInfo(concatBytes([ftyp, mdat, moov]))).toMatchObject({ width: 1920, height: 1080, duration: 45 });
+        expect(detectMediaInfo(concatBytes([ftyp, mdat]))).toMatchObject({ type: 'video', width: undefined, duration: undefined });
+    });
+
+    test('should read the duration from the movie header box, not from header names in other boxes', () => {
+        const metadata = box('udta', mvhd(1, 999999));
+        const video = concatBytes([ftyp, box('moov', metadata, mvhd(1000, 90500), box('trak', tkhd(1080, 1920)))]);
+
+        expect(detectMediaInfo(video)).toMatchObject({ width: 1080, height: 1920, duration: 90.5 });
+    });
+
+    test('should prefer content over a misleading extension and fall back to it otherwise', () => {
+        expect(detectMediaInfo(png(1, 1), 'photo.jpg').mimeType).toBe('image/png');
+        expect(detectMediaInfo(new Uint8Array([1, 2, 3]), 'clip.MOV')).toMatchObject({ type: 'video', mimeType: 'video/quicktime' });
+    });
+
+    test('should reject unsupported, empty and oversized files', () => {
+        expect(() => detectMediaInfo(new Uint8Array([1, 2, 3]), 'notes.txt')).toThrow(ValidationError);
+        expect(() => detectMediaInfo(new Uint8Array(0), 'empty.png')).toThrow('empty');
+
+        const oversized = new Uint8Array(MEDIA_SIZE_LIMITS.image + 1);
+        oversized.set(png(1, 1));
+        expect(() => detectMediaInfo(oversized)).toThrow('at most 10MB');
+    });
+});
+
+describe('openMediaInput', () => {
+    const readAll = async (chunks: AsyncIterable<Uint8Array>): Promise<number[][]> => {
+        const result: number[][] = [];
+        for await (const chunk of chunks) {
+            result.push(Array.from(chunk));
+        }
+        return result;
+    };
+
+    test('should read a file path in chunks and keep its name', async () => {
+        const dir = mkdtempSync(join(tmpdir(), 'buffer-media-'));
+        try {
+            writeFileSync(join(dir, 'banner.png'), png(2, 2));
+
+            const source = await openMediaInput(join(dir, 'banner.png'));
+            try {
+                expect(source).toMatchObject({ filename: 'banner.png', size: 33 });
+                await expect(inspectMedia(source, source.filename)).resolves.toMatchObject({ type: 'image', size: 33, width: 2, height: 2 });
+                expect((await readAll(source.chunks(16))).flat()).toEqual(Array.from(png(2, 2)));
+            } finally {
+                await source.close();
+            }
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('should read the movie box of a file without reading the media data', async () => {
+        const dir = mkdtempSync(join(tmpdir(), 'buffer-media-'));
+        try {
+            writeFileSync(join(dir, 'clip.mp4'), concatBytes([ftyp, box('mdat', new Uint8Array(1024 * 1024)), moov]));
+
+            const source = await openMediaInput(join(dir, 'clip.mp4'));
+            try {
+                await expect(inspectMedia(source)).resolves.toMatchObject({ type: 'video', width: 1920, height: 1080, duration: 45 });
+            } finally {
+                await source.close();
+            }
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('should buffer only the start of a stream and report its size with the last chunk', async () => {
+        let pulled = 0;
+        async function* stream() {
+            yield png(4, 3);
+            for (let index = 0; index < 64; index++) {
+                pulled++;
+                yield new Uint8Array(64 * 1024);
+            }
+        }
+
+        const source = await openMediaInput(stream());
+        const info = await inspectMedia(source);
+
+        expect(info).toMatchObject({ type: 'image', size: undefined, width: 4, height: 3 });
+        expect(pulled).toBeLessThan(8);
+
+        const sizes: Array<number | undefined> = [];
+        let total = 0;
+        for await (const chunk of source.chunks(1024 * 1024)) {
+            total += chunk.length;
+            sizes.push(source.size);
+        }
+        expect(total).toBe(33 + 64 * 64 * 1024);
+        expect(sizes).toEqual([undefined, undefined, undefined, undefined, total]);
+    });
+
+    test('should rechunk async iterables and reject missing files', async () => {
+        async function* chunks() {
+            yield new Uint8Array([1, 2]);
+            yield new Uint8Array([3]);
+        }
+
+        expect(await readAll((await openMediaInput(chunks())).chunks(2))).toEqual([[1, 2], [3]]);
+        await expect(openMediaInput('/nonexistent/file.png')).rejects.toBeInstanceOf(ValidationError);
+    });
+});
@@ -0,0 +1,94 @@
+import { countPostLength, PLATFORM_RULES, validatePost } from '../src/post-validation';
+
+const image = (alt_text?: string) => ({ type: 'image' as const, url: 'https://example.com/a.png', alt_text });
+const codes = (issues: Array<{ code?: string }>) => issues.map(issue => issue.code);
+
+describe('countPostLength', () => {
+    test('should weight URLs when the platform shortens links', () => {
+        const text = `Read more https://example.com/${'a'.repeat(100)} now`;
+
+        expect(countPostLength(text, 23)).toBe('Read more  now'.length + 23);
+        expect(countPostLength(text)).toBe(text.length);
+        expect(countPostLength('🚀🚀')).toBe(2);
+    });
+});
+
+describe('validatePost', () => {
+    test('should accept a post within every limit', () => {
+        expect(validatePost('x', { text: 'Shipping today #launch', media: [image('Screenshot')] }))
+            .toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    test('should enforce character limits per platform', () => {
+        const text = 'a'.repeat(300);
+
+        expect(codes(validatePost('x', { text }).errors)).toEqual(['TEXT_TOO_LONG']);
+        expect(validatePost('linkedin', { text }).valid).toBe(true);
+        // 250 characters plus a long link still fits on X because links count as 23
+        expect(validatePost('x', { text: `${'a'.repeat(250)} https://example.com/${'b'.repeat(80)}` }).valid).toBe(true);
+    });
+
+    test('should check media count, type mix and required media', () => {
+        const video = { type: 'video' as const, url: 'https://example.com/v.mp4' };
+
+        expect(codes(validatePost('instagram', { text: 'No picture' }).errors)).toEqual(['MEDIA_REQUIRED']);
+        expect(codes(validatePost('x', { text: 'Album', media: Array(5).fill(image('alt')) }).errors)).toEqual(['TOO_MANY_MEDIA']);
+        expect(codes(validatePost('linkedin', { text: 'Mixed', media: [image('alt'), video] }).errors)).toEqual(['MEDIA_MIX_NOT_ALLOWED']);
+        expect(validatePost('facebook', { text: 'Mixed', media: [image('alt'), video] }).valid).toBe(true);
+    });
+
+    test('should check uploaded video duration and size', () => {
+        const video = { type: 'video' as const, url: 'https://example.com/v.mp4', duration: 150, size: 600 * 1024 * 1024 };
+
+        const result = validatePost('x', { text: 'Clip', media: [video] });
+
+        expect(codes(result.errors)).toEqual(['VIDEO_TOO_LONG', 'VIDEO_TOO_LARGE']);
+        expect(result.errors[0].field).toBe('media[0]');
+    });
+
+    test('should limit hashtags and mentions and warn above the recommendation', () => {
+        const tags = (count: number) => Array.from({ length: count }, (_, i) => `#tag${i}`).join(' ');
+
+        expect(validatePost('x', { text: tags(3) })).toMatchObject({ valid: true, warnings: [{ code: 'HASHTAGS_ABOVE_RECOMMENDED' }] });
+        expect(codes(validatePost('instagram', { text: tags(31), media: [image('alt')] }).errors)).toEqual(['TOO_MANY_HASHTAGS']);
+        expect(codes(validatePost('x', { text: Array.from({ length: 11 }, (_, i) => `@user${i}`).join(' ') }).errors))
+            .toEqual(['TOO_MANY_MENTIONS']);
+        expect(validatePost('x', { text: 'Email me at team@example.com about issue#4' }).warnings).toEqual([]);
+    });
+
+    test('should report missing alt text according to the rules', () => {
+        expect(validatePost('x', { text: 'Pic', media: [image()] }).warnings).toEqual([
+            { field: 'media[0]', code: 'ALT_TEXT_MISSING', message: 'media[0] has no alt text' },
+        ]);
+        expect(validatePost('facebook', { text: 'Pic', media: [image()] }).warnings).toEqual([]);
+        expect(codes(validatePost('x', { text: 'Pic', media: [image()] }, { ...PLATFORM_RULES.x, altText: 'required' }).errors))
+            .toEqual(['ALT_TEXT_MISSING']);
+    });
+
+    test('should validate each thread segment and the thread length', () => {
+        const thread = [{ text: 'Second' }, { text: 'b'.repeat(300), media: [image('alt'), { type: 'video' as const, url: 'https://example.com/v.mp4' }] }];
+
+        const result = validatePost('x', { text: 'First', thread });
+
+        expect(result.errors.map(error => [error.field, error.code])).toEqual([
+            ['thread[1].text', 'TEXT_TOO_LONG'],
+            ['thread[1].media', 'MEDIA_MIX_NOT_ALLOWED'],
+        ]);
+        expect(codes(validatePost('x', { text: 'First', thread: Array(25).fill({ text: 'More' }) }).errors)).toEqual(['THREAD_TOO_LONG']);
+        expect(codes(validatePost('linkedin', { text: 'First', thread: [{ text: 'Second' }] }).errors)).toEqual(['THREAD_NOT_SUPPORTED']);
+    });
+
+    test('should apply carousel rules per platform', () => {
+        const slides = (count: number) => Array.from({ length: count }, (_, i) => ({ ...image(`Slide ${i}`), caption: `Caption ${i}` }));
+
+        expect(validatePost('facebook', { text: 'Album', carousel: slides(3) })).toEqual({ valid: true, errors: [], warnings: [] });
+        expect(validatePost('instagram', { text: 'Swipe', carousel: slides(3) })).toMatchObject({
+            valid: true,
+            warnings: [{ code: 'SLIDE_CAPTIONS_IGNORED' }],
+        });
+        expect(codes(validatePost('instagram', { text: 'Swipe', carousel: slides(11) }).errors)).toEqual(['CAROUSEL_SLIDE_COUNT']);
+        expect(codes(validatePost('x', { text: 'Swipe', carousel: slides(2) }).errors)).toEqual(['CAROUSEL_NOT_SUPPORTED']);
+        expect(codes(validatePost('linkedin', { text: 'Swipe', carousel: slides(2), media: [image('alt')] }).errors))
+            .toEqual(['CAROUSEL_CONFLICT']);
+    });
+});
@@ -0,0 +1,76 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileRateLimitStore, MemoryRateLimitStore } from '../src';
+import { TokenBucketRateLimiter } from '../src/rate-limiter';
+
+describe('MemoryRateLimitStore', () => {
+    test('should allow up to the limit within one window', async () => {
+        const store = new MemoryRateLimitStore();
+
+        const results = [];
+        for (let i = 0; i < 3; i++) {
+            results.push(await store.consume('account', 2, 1000));
+        }
+
+        expect(results.map(result => result.allowed)).toEqual([true, true, false]);
+        expect(results[2].count).toBe(2);
+    });
+
+    test('should start a new window once the old one expires', async () => {
+        const store = new MemoryRateLimitStore();
+        await store.consume('account', 1, 10);
+
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        await expect(store.consume('account', 1, 10)).resolves.toMatchObject({ allowed: true, count: 1 });
+    });
+
+    test('should make limiters in different clients share one budget', async () => {
+        const store = new MemoryRateLimitStore();
+        const options = { requests: 2, window: 60000, strategy: 'throw' as const, maxWaitMs: 0, maxQueueLength: 10, store, key: 'acme' };
+        const workerA = new TokenBucketRateLimiter(options);
+        const workerB = new TokenBucketRateLimiter(options);
+
+        await workerA.acquire();
+        await workerB.acquire();
+
+        await expect(workerA.acquire()).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+        expect(workerB.getStatus().remaining).toBe(0);
+    });
+});
+
+describe('FileRateLimitStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'buffer-sdk-ratelimit-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should count concurrent consumers from separate store instances exactly', async () => {
+        const filePath = join(dir, 'ratelimit.json');
+        const stores = [new FileRateLimitStore(filePath), new FileRateLimitStore(filePath)];
+
+        const results = await Promise.all(
+            Array.from({ length: 10 }, (_, i) => stores[i % 2].consume('account', 5, 60000))
+        );
+
+        expect(results.filter(result => result.allowed)).toHaveLength(5);
+    });
+
+    test('should take over a stale lock', async () => {
+        const filePath = join(dir, 'ratelimit.json');
+        const { writeFileSync, utimesSync } = await import('fs');
+        writeFileSync(`${filePath}.lock`, '');
+        const past = new Date(Date.now() - 60000);
+        utimesSync(`${filePath}.lock`, past, past);
+
+        const store = new FileRateLimitStore(filePath, { staleLockMs: 1000 });
+
+        await expect(store.consume('account', 1, 60000)).resolves.toMatchObject({ allowed: true });
+    });
+});
@@ -0,0 +1,112 @@
+import { parseRateLimitHeaders, TokenBucketRateLimiter } from '../src/rate-limiter';
+import { RateLimiterOptions } from '../src/types';
+
+const createLimiter = (overrides: Partial<RateLimiterOptions> = {}) => new TokenBucketRateLimiter({
+    requests: 2,
+    window: 100,
+    strategy: 'queue',
+    maxWaitMs: 1000,
+    maxQueueLength: 10,
+    ...overrides,
+});
+
+describe('TokenBucketRateLimiter', () => {
+    test('should grant requests immediately while tokens remain', async () => {
+        const limiter = createLimiter();
+
+        await limiter.acquire();
+        await limiter.acquire();
+
+        expect(limiter.getStatus()).toMatchObject({ available: 0, queueDepth: 0 });
+    });
+
+    test('should queue requests in order and report the estimated wait', async () => {
+        const limiter = createLimiter();
+        await limiter.acquire();
+        await limiter.acquire();
+
+        const order: number[] = [];
+        const waiting = [1, 2].map(id => limiter.acquire().then(() => order.push(id)));
+
+        const status = limiter.getStatus();
+        expect(status.queueDepth).toBe(2);
+        expect(status.estimatedWaitMs).toBeGreaterThan(0);
+
+        await Promise.all(waiting);
+        expect(order).toEqual([1, 2]);
+        expect(limiter.getStatus().queueDepth).toBe(0);
+    });
+
+    test('should throw immediately with the throw strategy', async () => {
+        const limiter = createLimiter({ requests: 1, strategy: 'throw' });
+        await limiter.acquire();
+
+        await expect(limiter.acquire()).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED', statusCode: 429 });
+    });
+
+    test('should reject requests that would wait longer than maxWaitMs', async () => {
+        const limiter = createLimiter({ requests: 1, window: 10000, maxWaitMs: 100 });
+        await limiter.acquire();
+
+        await expect(limiter.acquire()).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+    });
+
+    test('should reject new requests when the queue is full', async () => {
+        const limiter = createLimiter({ requests: 1, maxQueueLength: 1 });
+        await limiter.acquire();
+        const queued = limiter.acquire();
+
+        await expect(limiter.acquire()).rejects.toMatchObject({ code: 'RATE_LIMIT_QUEUE_FULL' });
+        await queued;
+    });
+
+    test('should evict the oldest waiter with the drop-oldest strategy', async () => {
+        const limiter = createLimiter({ requests: 1, strategy: 'drop-oldest', maxQueueLength: 1 });
+        await limiter.acquire();
+        const oldest = limiter.acquire();
+        const newest = limiter.acquire();
+
+        await expect(oldest).rejects.toMatchObject({ code: 'RATE_LIMIT_DROPPED' });
+        await expect(newest).resolves.toBeUndefined();
+    });
+
+    test('should remove an aborted waiter from the queue', async () => {
+        const limiter = createLimiter({ requests: 1 });
+        await limiter.acquire();
+        const controller = new AbortController();
+        const aborted = limiter.acquire(controller.signal);
+        const next = limiter.acquire();
+
+        controller.abort();
+
+        await expect(aborted).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+        expect(limiter.getStatus().queueDepth).toBe(1);
+        await expect(next).resolves.toBeUndefined();
+    });
+
+    test('should hold requests until the server-reported reset', async () => {
+        const limiter = createLimiter({ requests: 10 });
+        limiter.syncFromServer({ remaining: 0, resetAt: Date.now() + 50 });
+
+        expect(limiter.getStatus()).toMatchObject({ available: 0, remaining: 0 });
+
+        const startedAt = Date.now();
+        await limiter.acquire();
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+    });
+});
+
+describe('parseRateLimitHeaders', () => {
+    const now = 1700000000000;
+
+    test('should read remaining and an epoch reset', () => {
+        expect(parseRateLimitHeaders({ 'x-ratelimit-remaining': '5', 'x-ratelimit-reset': '1700000060' }, now))
+            .toEqual({ remaining: 5, resetAt: 1700000060000 });
+    });
+
+    test('should read Retry-After as seconds or an HTTP date', () => {
+        expect(parseRateLimitHeaders({ 'retry-after': '30' }, now)).toEqual({ retryAfterMs: 30000 });
+        expect(parseRateLimitHeaders({ 'retry-after': new Date(now + 5000).toUTCString() }, now))
+            .toEqual({ retryAfterMs: 5000 });
+    });
+});
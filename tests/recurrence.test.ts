@@ -0,0 +1,107 @@
+import { expandRecurrence, normalizeRecurrenceRule, parseRRule, selectEvergreenPosts } from '../src/recurrence';
+import { PostAnalytics, ValidationError } from '../src/types';
+
+const iso = (occurrences: Array<{ dueAt: number }>) => occurrences.map(({ dueAt }) => new Date(dueAt).toISOString());
+// Midnight on Monday 2024-01-01 in New York
+const series = { start: '2024-01-01T05:00:00Z', time: '09:00', timezone: 'America/New_York' };
+const window = [Date.parse('2024-01-01T00:00:00Z'), Date.parse('2025-01-01T00:00:00Z')] as const;
+
+describe('parseRRule', () => {
+    test('should parse frequency, ordinals and end conditions', () => {
+        expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=3TU,-1FR;COUNT=6')).toEqual({
+            frequency: 'monthly',
+            interval: 2,
+            byDay: ['3tue', '-1fri'],
+            byMonthDay: undefined,
+            count: 6,
+            until: undefined,
+        });
+        expect(parseRRule('FREQ=WEEKLY;BYDAY=MO,TH;UNTIL=20240630').until).toBe('2024-06-30T23:59:59Z');
+    });
+
+    test('should reject unsupported rules with every problem listed', () => {
+        const error = (() => {
+            try {
+                return normalizeRecurrenceRule({ frequency: 'weekly', interval: 0, byDay: ['2tue'], byMonthDay: [1] });
+            } catch (err) {
+                return err;
+            }
+        })() as ValidationError;
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.fieldErrors.map(item => item.field)).toEqual(['rule.interval', 'rule.byDay', 'rule.byMonthDay']);
+        expect(() => parseRRule('FREQ=YEARLY')).toThrow('Unsupported frequency yearly');
+    });
+});
+
+describe('expandRecurrence', () => {
+    test('should expand every third Tuesday until the count runs out, across DST', () => {
+        const occurrences = expandRecurrence(parseRRule('FREQ=MONTHLY;BYDAY=3TU;COUNT=4'), series, ...window);
+
+        expect(iso(occurrences)).toEqual([
+            '2024-01-16T14:00:00.000Z',
+            '2024-02-20T14:00:00.000Z',
+            // Daylight time from March 10
+            '2024-03-19T13:00:00.000Z',
+            '2024-04-16T13:00:00.000Z',
+        ]);
+        expect(occurrences.map(({ index }) => index)).toEqual([0, 1, 2, 3]);
+    });
+
+    test('should support weekly intervals, last weekdays and month-end days', () => {
+        expect(iso(expandRecurrence({ frequency: 'weekly', interval: 3, byDay: ['tue'], count: 3 }, series, ...window)))
+            .toEqual(['2024-01-02T14:00:00.000Z', '2024-01-23T14:00:00.000Z', '2024-02-13T14:00:00.000Z']);
+        expect(iso(expandRecurrence({ frequency: 'monthly', byDay: ['-1fri'], count: 2 }, series, ...window)))
+            .toEqual(['2024-01-26T14:00:00.000Z', '2024-02-23T14:00:00.000Z']);
+        expect(iso(expandRecurrence({ frequency: 'monthly', byMonthDay: [-1], until: '2024-03-15' }, series, ...window)))
+            .toEqual(['2024-01-31T14:00:00.000Z', '2024-02-29T14:00:00.000Z']);
+    });
+
+    test('should keep indexes counted from the start when expanding a later window', () => {
+        const rule = { frequency: 'daily' as const, count: 10 };
+
+        const later = expandRecurrence(rule, series, Date.parse('2024-01-08T00:00:00Z'), Date.parse('2024-02-01T00:00:00Z'));
+
+        expect(later.map(({ index }) => index)).toEqual([7, 8, 9]);
+    });
+});
+
+describe('selectEvergreenPosts', () => {
+    const now = Date.parse('2024-06-01T00:00:00Z');
+    const post = (postId: string, engagementRate: number, publishedAt: string) =>
+        ({ postId, engagementRate, publishedAt, text: `Post ${postId}`, metrics: { clicks: 0 } } as PostAnalytics);
+
+    test('should rank by engagement and respect the minimum gap', () => {
+        const analytics = [post('a', 0.02, '2024-01-01'), post('b', 0.09, '2024-05-25'), post('c', 0.05, '2024-02-01'), post('d', 0.07, '2024-01-01')];
+        // d is already re-queued for a future slot
+        const lastShared = new Map([['post d', now + 86400000]]);
+
+        const picks = selectEvergreenPosts(analytics, lastShared, { top: 2, minGapDays: 30 }, now);
+
+        expect(picks.map(({ post: picked }) => picked.postId)).toEqual(['b', 'c']);
+        expect(new Date(picks[0].notBefore).toISOString()).toBe('2024-06-24T00:00:00.000Z');
+        expect(picks[1].notBefore).toBe(now);
+    });
+
+    test('should treat posts with the same text as one piece of content', () => {
+        const copy = (postId: string, engagementRate: number, publishedAt: string, text: string) =>
+            ({ ...post(postId, engagementRate, publishedAt), text });
+        // A recycled copy under a new id, with different spacing and case, shared more recently than the original
+        const analytics = [copy('a', 0.09, '2024-01-01', 'Our guide to  pricing'), copy('a2', 0.02, '2024-05-25', 'our guide to pricing '), post('b', 0.05, '2024-01-01')];
+
+        const picks = selectEvergreenPosts(analytics, new Map(), { minGapDays: 30 }, now);
+
+        expect(picks.map(pick => pick.post.postId)).toEqual(['a', 'b']);
+        expect(picks[0].contentKey).toBe('our guide to pricing');
+        expect(new Date(picks[0].notBefore).toISOString()).toBe('2024-06-24T00:00:00.000Z');
+        expect(selectEvergreenPosts(analytics, new Map([['our guide to pricing', now + 1]]), {}, now).map(pick => pick.post.postId)).toEqual(['b']);
+    });
+
+    test('should group posts by a caller-supplied content key', () => {
+        const analytics = [post('a', 0.09, '2024-01-01'), post('b', 0.05, '2024-01-01'), post('c', 0.02, '2024-01-01')];
+
+        const picks = selectEvergreenPosts(analytics, new Map(), { contentKey: item => (item.postId === 'c' ? 'z' : 'same') }, now);
+
+        expect(picks.map(pick => [pick.post.postId, pick.contentKey])).toEqual([['a', 'same'], ['c', 'z']]);
+    });
+});
@@ -0,0 +1,53 @@
+import { computeRetryDelay, DEFAULT_RETRY_POLICY, isRetryableError, isSafeToRetry, mergeRetryPolicy } from '../src/retry';
+import { BufferAPIError, BufferRequest } from '../src/types';
+
+const createRequest = (overrides: Partial<BufferRequest> = {}): BufferRequest => ({
+    method: 'POST',
+    path: '/updates/create.json',
+    params: {},
+    headers: {},
+    attempt: 1,
+    metadata: {},
+    options: {},
+    ...overrides,
+});
+
+describe('retry policy', () => {
+    test('should grow the delay exponentially and cap it at maxDelay', () => {
+        const policy = { ...DEFAULT_RETRY_POLICY, jitter: 'none' as const, delay: 100, maxDelay: 500 };
+
+        expect([1, 2, 3, 4].map(attempt => computeRetryDelay(policy, attempt))).toEqual([100, 200, 400, 500]);
+    });
+
+    test('should apply full and equal jitter within the backoff window', () => {
+        const policy = { ...DEFAULT_RETRY_POLICY, delay: 1000 };
+
+        expect(computeRetryDelay({ ...policy, jitter: 'full' }, 2, () => 0.5)).toBe(1000);
+        expect(computeRetryDelay({ ...policy, jitter: 'full' }, 2, () => 0)).toBe(0);
+        expect(computeRetryDelay({ ...policy, jitter: 'equal' }, 2, () => 0)).toBe(1000);
+        expect(computeRetryDelay({ ...policy, jitter: 'equal' }, 2, () => 0.99)).toBe(1990);
+    });
+
+    test('should classify transient errors as retryable', () => {
+        expect(isRetryableError(new BufferAPIError('NETWORK_ERROR', 'offline'))).toBe(true);
+        expect(isRetryableError(new BufferAPIError('HTTP_503', 'unavailable', 503))).toBe(true);
+        expect(isRetryableError(new BufferAPIError('HTTP_400', 'bad request', 400))).toBe(false);
+        expect(isRetryableError(new BufferAPIError('REQUEST_ERROR', 'boom'))).toBe(false);
+    });
+
+    test('should only replay non-idempotent requests when it is safe', () => {
+        const serverError = new BufferAPIError('HTTP_502', 'bad gateway', 502);
+        const rateLimited = new BufferAPIError('HTTP_429', 'slow down', 429);
+
+        expect(isSafeToRetry(createRequest({ method: 'GET' }), serverError, DEFAULT_RETRY_POLICY)).toBe(true);
+        expect(isSafeToRetry(createRequest(), serverError, DEFAULT_RETRY_POLICY)).toBe(false);
+        expect(isSafeToRetry(createRequest(), rateLimited, DEFAULT_RETRY_POLICY)).toBe(true);
+        expect(isSafeToRetry(createRequest({ headers: { 'Idempotency-Key': 'abc' } }), serverError, DEFAULT_RETRY_POLICY)).toBe(true);
+        expect(isSafeToRetry(createRequest(), serverError, { ...DEFAULT_RETRY_POLICY, retryNonIdempotent: true })).toBe(true);
+    });
+
+    test('should merge per-call overrides and disable retries with false', () => {
+        expect(mergeRetryPolicy(DEFAULT_RETRY_POLICY, { attempts: 5 })).toMatchObject({ attempts: 5, delay: 1000 });
+        expect(mergeRetryPolicy(DEFAULT_RETRY_POLICY, false).attempts).toBe(1);
+    });
+});
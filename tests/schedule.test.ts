@@ -0,0 +1,126 @@
+import { addScheduleSlot, computeFreeSlots, computeSlotTimes, normalizeSchedules, removeScheduleSlot, zonedTimeToUtc } from '../src/schedule';
+import { ValidationError } from '../src/types';
+
+describe('zonedTimeToUtc', () => {
+    test('should convert wall-clock time in standard and daylight time', () => {
+        expect(new Date(zonedTimeToUtc(2024, 1, 15, 9, 0, 'America/New_York')).toISOString()).toBe('2024-01-15T14:00:00.000Z');
+        expect(new Date(zonedTimeToUtc(2024, 7, 15, 9, 0, 'America/New_York')).toISOString()).toBe('2024-07-15T13:00:00.000Z');
+    });
+
+    test('should move times skipped by the spring-forward gap past the gap', () => {
+        expect(new Date(zonedTimeToUtc(2024, 3, 10, 2, 30, 'America/New_York')).toISOString()).toBe('2024-03-10T07:30:00.000Z');
+    });
+
+    test('should use the first occurrence of a repeated fall-back time', () => {
+        expect(new Date(zonedTimeToUtc(2024, 11, 3, 1, 30, 'America/New_York')).toISOString()).toBe('2024-11-03T05:30:00.000Z');
+        expect(new Date(zonedTimeToUtc(2026, 10, 25, 1, 30, 'Europe/London')).toISOString()).toBe('2026-10-25T00:30:00.000Z');
+        expect(new Date(zonedTimeToUtc(2026, 4, 5, 2, 30, 'Pacific/Auckland')).toISOString()).toBe('2026-04-04T13:30:00.000Z');
+    });
+
+    test('should move spring-forward gaps past the gap east of UTC', () => {
+        expect(new Date(zonedTimeToUtc(2026, 3, 29, 1, 30, 'Europe/London')).toISOString()).toBe('2026-03-29T01:30:00.000Z');
+        expect(new Date(zonedTimeToUtc(2026, 9, 27, 2, 30, 'Pacific/Auckland')).toISOString()).toBe('2026-09-26T14:30:00.000Z');
+    });
+});
+
+describe('computeSlotTimes', () => {
+    const weekdays = [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], times: ['17:00', '09:00'] }];
+
+    test('should list upcoming slots in order, skipping past times and days without slots', () => {
+        // Friday 2024-03-08 12:00 in New York
+        const from = Date.parse('2024-03-08T17:00:00Z');
+
+        const slots = computeSlotTimes(weekdays, 'America/New_York', 3, from);
+
+        expect(slots.map(slot => `${slot.day} ${slot.time}`)).toEqual(['fri 17:00', 'mon 09:00', 'mon 17:00']);
+        expect(slots.map(slot => slot.scheduledAt)).toEqual([
+            '2024-03-08T22:00:00.000Z',
+            // Clocks moved forward on Sunday, so 09:00 is now UTC-4
+            '2024-03-11T13:00:00.000Z',
+            '2024-03-11T21:00:00.000Z',
+        ]);
+        expect(slots[0]).toMatchObject({ timezone: 'America/New_York', dueAt: Date.parse('2024-03-08T22:00:00Z') });
+    });
+
+    test('should return no slots for an empty schedule', () => {
+        expect(computeSlotTimes([{ days: [], times: ['09:00'] }], 'UTC', 5)).toEqual([]);
+        expect(computeSlotTimes([{ days: ['someday'], times: ['09:00'] }], 'UTC', 5)).toEqual([]);
+    });
+
+    test('should accept full and capitalized day names from the API', () => {
+        // Friday 2024-03-08 12:00 UTC
+        const from = Date.parse('2024-03-08T12:00:00Z');
+
+        const slots = computeSlotTimes([{ days: ['Monday', 'TUE'], times: ['09:00'] }], 'UTC', 2, from);
+
+        expect(slots.map(slot => slot.scheduledAt)).toEqual(['2024-03-11T09:00:00.000Z', '2024-03-12T09:00:00.000Z']);
+        expect(slots[0].day).toBe('mon');
+    });
+
+    test('should reject unknown timezones and malformed times', () => {
+        expect(() => computeSlotTimes(weekdays, 'Mars/Olympus_Mons', 1)).toThrow(ValidationError);
+        expect(() => computeSlotTimes([{ days: ['mon'], times: ['9am'] }], 'UTC', 1)).toThrow(ValidationError);
+    });
+});
+
+describe('computeFreeSlots', () => {
+    test('should skip taken slots across the fall-back transition', () => {
+        const daily = [{ days: ['sat', 'sun', 'mon'], times: ['01:30', '09:00'] }];
+        // Saturday 2024-11-02 08:00 in New York; clocks go back at 02:00 on Sunday
+        const from = Date.parse('2024-11-02T12:00:00Z');
+        // Saturday 09:00 and the first Sunday 01:30
+        const taken = [Date.parse('2024-11-02T13:00:00Z'), Date.parse('2024-11-03T05:30:00Z')];
+
+        const slots = computeFreeSlots(daily, 'America/New_York', taken, 3, from);
+
+        expect(slots.map(slot => `${slot.day} ${slot.time} ${slot.scheduledAt}`)).toEqual([
+            'sun 09:00 2024-11-03T14:00:00.000Z',
+            'mon 01:30 2024-11-04T06:30:00.000Z',
+            'mon 09:00 2024-11-04T14:00:00.000Z',
+        ]);
+    });
+});
+
+describe('schedule editing', () => {
+    test('should normalize day names and times and group days with the same times', () => {
+        expect(normalizeSchedules([
+            { days: ['Tuesday', 'mon'], times: ['17:00', '9:00'] },
+            { days: ['SAT'], times: ['11:30'] },
+        ])).toEqual([
+            { days: ['mon', 'tue'], times: ['09:00', '17:00'] },
+            { days: ['sat'], times: ['11:30'] },
+        ]);
+    });
+
+    test('should report every invalid day, time and duplicate slot', () => {
+        let error: ValidationError | undefined;
+        try {
+            normalizeSchedules([
+                { days: ['mon', 'funday'], times: ['25:00', '09:00'] },
+                { days: ['monday'], times: ['09:00'] },
+            ]);
+        } catch (err) {
+            error = err as ValidationError;
+        }
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error!.fieldErrors.map(fieldError => fieldError.field)).toEqual([
+            'schedules[0].days',
+            'schedules[0].times',
+            'schedules[1]',
+        ]);
+    });
+
+    test('should add and remove single slots', () => {
+        const schedules = [{ days: ['mon', 'tue'], times: ['09:00'] }];
+
+        const added = addScheduleSlot(schedules, 'tue', '13:00');
+        expect(added).toEqual([
+            { days: ['mon'], times: ['09:00'] },
+            { days: ['tue'], times: ['09:00', '13:00'] },
+        ]);
+        expect(removeScheduleSlot(added, 'tuesday', '13:00')).toEqual(schedules);
+        expect(() => addScheduleSlot(schedules, 'mon', '09:00')).toThrow('Duplicate slot mon 09:00');
+        expect(() => removeScheduleSlot(schedules, 'wed', '09:00')).toThrow(ValidationError);
+    });
+});
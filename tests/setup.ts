@@ -1,9 +1,13 @@
 // Global test setup
 import { jest } from '@jest/globals';
+import axios from 'axios';
 
 // Mock axios globally for tests
 jest.mock('axios');
 
+// Clients create their own axios instance; hand them the mocked module so tests can stub requests
+(axios.create as jest.Mock<typeof axios.create>).mockReturnValue(axios as any);
+
 // Set up global test timeout
 jest.setTimeout(10000);
 
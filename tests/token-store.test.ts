@@ -0,0 +1,57 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileTokenStore, MemoryTokenStore } from '../src';
+
+const tokens = {
+    access_token: 'access-1',
+    token_type: 'Bearer',
+    refresh_token: 'refresh-1',
+    expires_at: 1700000000000,
+};
+
+describe('MemoryTokenStore', () => {
+    test('should keep tokens per client and account', async () => {
+        const store = new MemoryTokenStore();
+        await store.save({ clientId: 'client', account: 'a' }, tokens);
+
+        expect(await store.load({ clientId: 'client', account: 'a' })).toEqual(tokens);
+        expect(await store.load({ clientId: 'client', account: 'b' })).toBeUndefined();
+
+        await store.delete({ clientId: 'client', account: 'a' });
+        expect(await store.load({ clientId: 'client', account: 'a' })).toBeUndefined();
+    });
+});
+
+describe('FileTokenStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'buffer-sdk-tokens-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should return undefined when the file does not exist', async () => {
+        const store = new FileTokenStore(join(dir, 'tokens.json'));
+
+        expect(await store.load({ clientId: 'client', account: 'default' })).toBeUndefined();
+    });
+
+    test('should persist tokens across store instances', async () => {
+        const filePath = join(dir, 'tokens.json');
+        const store = new FileTokenStore(filePath);
+
+        await Promise.all([
+            store.save({ clientId: 'client', account: 'a' }, tokens),
+            store.save({ clientId: 'client', account: 'b' }, { ...tokens, access_token: 'access-2' }),
+        ]);
+
+        const reopened = new FileTokenStore(filePath);
+        expect(await reopened.load({ clientId: 'client', account: 'a' })).toEqual(tokens);
+        expect(await reopened.load({ clientId: 'client', account: 'b' })).toMatchObject({ access_token: 'access-2' });
+        expect(Object.keys(JSON.parse(readFileSync(filePath, 'utf8')))).toEqual(['client:a', 'client:b']);
+    });
+});